@@ -1,13 +1,50 @@
 import { loadGlobalSiteConfigs, saveGlobalSiteConfigs, type GlobalSiteConfig } from "@/lib/storage";
+import { getMarkdownProvider } from "@/lib/markdown-providers";
+import { validateRecipe } from "@/lib/recipes";
+import { validateCanonicalRules } from "@/lib/canonical-url";
+import { validatePaginationConfig } from "@/lib/pagination";
+import { validateLLMChain } from "@/lib/llm-providers";
+import { validateSiteExtraction } from "@/lib/extraction-config";
+import { checkAdminAuth, unauthorizedResponse } from "@/lib/admin-auth";
 
-function checkAuth(request: Request) {
-    const authHeader = request.headers.get("x-admin-password");
-    const adminPassword = process.env.ADMIN_PASSWORD || "rss-genai-2k";
+/** Returns a list of problems with the submitted configs; empty when valid */
+function validateConfigs(configs: GlobalSiteConfig): string[] {
+    const errors: string[] = [];
+    if (!configs || typeof configs !== "object" || Array.isArray(configs)) {
+        return ["Body must be an object keyed by domain"];
+    }
 
-    if (authHeader !== adminPassword) {
-        return false;
+    for (const [domain, config] of Object.entries(configs)) {
+        if (!config || typeof config !== "object") {
+            errors.push(`${domain}: config must be an object`);
+            continue;
+        }
+        if (config.providerChain !== undefined) {
+            if (!Array.isArray(config.providerChain)) {
+                errors.push(`${domain}.providerChain: must be an array of provider names`);
+                continue;
+            }
+            for (const name of config.providerChain) {
+                if (!getMarkdownProvider(name)) {
+                    errors.push(`${domain}.providerChain: unknown provider "${name}"`);
+                }
+            }
+        }
+        if (config.recipe !== undefined) {
+            errors.push(...validateRecipe(config.recipe, `${domain}.recipe`));
+        }
+        if (config.canonicalUrl !== undefined) {
+            errors.push(...validateCanonicalRules(config.canonicalUrl, `${domain}.canonicalUrl`));
+        }
+        if (config.pagination !== undefined) {
+            errors.push(...validatePaginationConfig(config.pagination, `${domain}.pagination`));
+        }
+        if (config.llmChain !== undefined) {
+            errors.push(...validateLLMChain(config.llmChain, `${domain}.llmChain`));
+        }
+        errors.push(...validateSiteExtraction(config.instructions, config.extraFields, domain));
     }
-    return true;
+    return errors;
 }
 
 export async function GET() {
@@ -26,15 +63,19 @@ export async function GET() {
 }
 
 export async function POST(request: Request) {
-    if (!checkAuth(request)) {
-        return new Response(JSON.stringify({ error: "Unauthorized" }), {
-            status: 401,
-            headers: { "Content-Type": "application/json" }
-        });
+    if (!checkAdminAuth(request)) {
+        return unauthorizedResponse();
     }
 
     try {
         const body = await request.json() as GlobalSiteConfig;
+        const errors = validateConfigs(body);
+        if (errors.length > 0) {
+            return new Response(JSON.stringify({ error: "Invalid config", details: errors }), {
+                status: 400,
+                headers: { "Content-Type": "application/json" }
+            });
+        }
         await saveGlobalSiteConfigs(body);
         return new Response(JSON.stringify({ success: true }), {
             status: 200,
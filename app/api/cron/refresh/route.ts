@@ -0,0 +1,58 @@
+// File: app/api/cron/refresh/route.ts
+//
+// Background refresh of every saved feed and tracked page.
+// Usage: GET /api/cron/refresh  with  Authorization: Bearer $CRON_SECRET  (or ?secret=)
+//
+// Query parameters:
+//   force   (optional) — "true" to ignore refresh intervals (the per-run cap still applies)
+//   dryRun  (optional) — "true" to list what would be refreshed without fetching anything
+//
+// Schedule it with Vercel Cron or any external scheduler; see SETUP.md.
+
+import { checkCronSecret } from "@/lib/admin-auth";
+import { planRefresh, runRefresh } from "@/lib/refresh";
+
+// A run fetches several pages and may call the LLM for each
+export const maxDuration = 300;
+
+export async function GET(request: Request) {
+    if (!checkCronSecret(request)) {
+        return new Response(
+            JSON.stringify({
+                error: "Unauthorized",
+                message: process.env.CRON_SECRET
+                    ? "Send Authorization: Bearer <CRON_SECRET> or ?secret=<CRON_SECRET>"
+                    : "CRON_SECRET is not configured",
+            }, null, 2),
+            { status: 401, headers: { "Content-Type": "application/json" } }
+        );
+    }
+
+    const { searchParams, origin } = new URL(request.url);
+    const force = searchParams.get("force") === "true";
+    const dryRun = searchParams.get("dryRun") === "true";
+
+    const plan = await planRefresh(force);
+
+    if (dryRun) {
+        return new Response(
+            JSON.stringify({
+                dryRun: true,
+                totalJobs: plan.jobs.length,
+                dueJobs: plan.due.length,
+                idleTrackedPages: plan.idle,
+                selected: plan.selected.map((job) => ({
+                    key: job.key,
+                    url: job.url,
+                    intervalMinutes: job.intervalMinutes,
+                })),
+            }, null, 2),
+            { headers: { "Content-Type": "application/json" } }
+        );
+    }
+
+    const run = await runRefresh(origin, plan);
+    return new Response(JSON.stringify(run, null, 2), {
+        headers: { "Content-Type": "application/json" },
+    });
+}
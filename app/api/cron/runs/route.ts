@@ -0,0 +1,18 @@
+// File: app/api/cron/runs/route.ts
+//
+// Recent background refresh runs (newest first) and per-feed refresh state.
+// Usage: GET /api/cron/runs  with  Authorization: Bearer $CRON_SECRET  (or ?secret=)
+
+import { checkCronSecret, unauthorizedResponse } from "@/lib/admin-auth";
+import { loadCronRuns, loadRefreshState } from "@/lib/storage";
+
+export async function GET(request: Request) {
+    if (!checkCronSecret(request)) {
+        return unauthorizedResponse();
+    }
+
+    const [runs, feeds] = await Promise.all([loadCronRuns(), loadRefreshState()]);
+    return new Response(JSON.stringify({ runs, feeds }, null, 2), {
+        headers: { "Content-Type": "application/json" },
+    });
+}
@@ -0,0 +1,97 @@
+// File: app/api/feeds/[id]/route.ts
+//
+// A single saved feed definition.
+// GET    /api/feeds/<id>   — the stored definition
+// PUT    /api/feeds/<id>   — update any of { name, url, params, refreshIntervalMinutes } (x-admin-password required)
+// DELETE /api/feeds/<id>   — remove it (x-admin-password required)
+//
+// The id is immutable, so /api/feeds/<id>/rss keeps working after edits.
+
+import { loadFeedDefinition, saveFeedDefinition, deleteFeedDefinition, type FeedDefinition } from "@/lib/storage";
+import { isValidFeedId, validateFeedInput } from "@/lib/feeds";
+import { checkAdminAuth, unauthorizedResponse } from "@/lib/admin-auth";
+
+interface FeedRouteContext {
+    params: Promise<{ id: string }>;
+}
+
+function notFound(id: string): Response {
+    return new Response(JSON.stringify({ error: `Feed "${id}" not found` }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+export async function GET(request: Request, { params }: FeedRouteContext) {
+    const { id } = await params;
+    const feed = isValidFeedId(id) ? await loadFeedDefinition(id) : null;
+    if (!feed) return notFound(id);
+
+    const subscribeUrl = `${new URL(request.url).origin}/api/feeds/${id}/rss`;
+    return new Response(JSON.stringify({ ...feed, subscribeUrl }, null, 2), {
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+export async function PUT(request: Request, { params }: FeedRouteContext) {
+    if (!checkAdminAuth(request)) {
+        return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    const existing = isValidFeedId(id) ? await loadFeedDefinition(id) : null;
+    if (!existing) return notFound(id);
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return new Response(JSON.stringify({ error: "Invalid request body" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+        });
+    }
+
+    const { input, errors } = validateFeedInput(body, true);
+    if (errors.length > 0) {
+        return new Response(JSON.stringify({ error: "Invalid feed", details: errors }, null, 2), {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+        });
+    }
+
+    // `params` replaces the stored set as a whole so parameters can be cleared
+    const { refreshIntervalMinutes, ...fields } = input;
+    const feed: FeedDefinition = {
+        ...existing,
+        ...fields,
+        id,
+        updatedAtISO: new Date().toISOString(),
+    };
+    if (refreshIntervalMinutes === null) {
+        delete feed.refreshIntervalMinutes;
+    } else if (refreshIntervalMinutes !== undefined) {
+        feed.refreshIntervalMinutes = refreshIntervalMinutes;
+    }
+    await saveFeedDefinition(feed);
+    console.log(`[Feeds] Updated ${id}`);
+
+    const subscribeUrl = `${new URL(request.url).origin}/api/feeds/${id}/rss`;
+    return new Response(JSON.stringify({ ...feed, subscribeUrl }, null, 2), {
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+export async function DELETE(request: Request, { params }: FeedRouteContext) {
+    if (!checkAdminAuth(request)) {
+        return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    if (!isValidFeedId(id) || !(await deleteFeedDefinition(id))) return notFound(id);
+    console.log(`[Feeds] Deleted ${id}`);
+
+    return new Response(JSON.stringify({ success: true }), {
+        headers: { "Content-Type": "application/json" },
+    });
+}
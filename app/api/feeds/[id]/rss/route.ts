@@ -0,0 +1,54 @@
+// File: app/api/feeds/[id]/rss/route.ts
+//
+// Serves a saved feed: /api/feeds/<id>/rss
+// Looks up the stored definition and proxies /api/rss with its parameters, so
+// the subscription URL stays the same when the definition is edited.
+// `refresh=true` is passed through; conditional GET headers are forwarded so
+// readers still get 304s.
+
+import { loadFeedDefinition } from "@/lib/storage";
+import { feedQueryParams, isValidFeedId } from "@/lib/feeds";
+
+const FORWARDED_REQUEST_HEADERS = ["if-none-match", "if-modified-since"];
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const feed = isValidFeedId(id) ? await loadFeedDefinition(id) : null;
+    if (!feed) {
+        return new Response(
+            JSON.stringify({ error: `Feed "${id}" not found` }, null, 2),
+            { status: 404, headers: { "Content-Type": "application/json" } }
+        );
+    }
+
+    const query = feedQueryParams(feed);
+    // Lets /api/rss advertise this stable URL as the feed's WebSub self link
+    query.set("feedId", id);
+    if (new URL(request.url).searchParams.get("refresh") === "true") {
+        query.set("refresh", "true");
+    }
+
+    const headers: Record<string, string> = {};
+    for (const name of FORWARDED_REQUEST_HEADERS) {
+        const value = request.headers.get(name);
+        if (value) headers[name] = value;
+    }
+
+    const origin = new URL(request.url).origin;
+    const res = await fetch(`${origin}/api/rss?${query}`, { headers });
+
+    const responseHeaders = new Headers(res.headers);
+    // Short edge cache: edits to the definition should reach subscribers quickly
+    if (responseHeaders.has("cache-control")) {
+        responseHeaders.set("Cache-Control", "s-maxage=300, stale-while-revalidate=86400");
+    }
+    responseHeaders.set("X-Feed-Id", id);
+    // fetch() already decoded the body
+    responseHeaders.delete("content-encoding");
+    responseHeaders.delete("content-length");
+
+    return new Response(res.status === 304 ? null : res.body, {
+        status: res.status,
+        headers: responseHeaders,
+    });
+}
@@ -0,0 +1,80 @@
+// File: app/api/feeds/route.ts
+//
+// Saved feed definitions: list and create.
+// GET  /api/feeds           — all saved feeds with their subscription URLs
+// POST /api/feeds           — create { name, url, params?, refreshIntervalMinutes?, id? } (x-admin-password required)
+//
+// A saved feed is served at /api/feeds/<id>/rss with its stored parameters.
+
+import { loadFeedDefinitions, loadFeedDefinition, saveFeedDefinition, type FeedDefinition } from "@/lib/storage";
+import { generateFeedId, isValidFeedId, validateFeedInput } from "@/lib/feeds";
+import { checkAdminAuth, unauthorizedResponse } from "@/lib/admin-auth";
+
+function withSubscribeUrl(feed: FeedDefinition, origin: string) {
+    return { ...feed, subscribeUrl: `${origin}/api/feeds/${feed.id}/rss` };
+}
+
+export async function GET(request: Request) {
+    const origin = new URL(request.url).origin;
+    const feeds = Object.values(await loadFeedDefinitions())
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((feed) => withSubscribeUrl(feed, origin));
+
+    return new Response(JSON.stringify({ feeds }, null, 2), {
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+export async function POST(request: Request) {
+    if (!checkAdminAuth(request)) {
+        return unauthorizedResponse();
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return new Response(JSON.stringify({ error: "Invalid request body" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+        });
+    }
+
+    const { input, errors } = validateFeedInput(body);
+    const requestedId = (body as { id?: unknown }).id;
+    if (requestedId !== undefined && (typeof requestedId !== "string" || !isValidFeedId(requestedId))) {
+        errors.push("id: must be 3-64 lowercase letters, digits or dashes");
+    }
+    if (errors.length > 0) {
+        return new Response(JSON.stringify({ error: "Invalid feed", details: errors }, null, 2), {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+        });
+    }
+
+    const id = typeof requestedId === "string" ? requestedId : generateFeedId();
+    if (await loadFeedDefinition(id)) {
+        return new Response(JSON.stringify({ error: `Feed "${id}" already exists` }), {
+            status: 409,
+            headers: { "Content-Type": "application/json" },
+        });
+    }
+
+    const now = new Date().toISOString();
+    const feed: FeedDefinition = {
+        id,
+        name: input.name!,
+        url: input.url!,
+        params: input.params ?? {},
+        ...(input.refreshIntervalMinutes ? { refreshIntervalMinutes: input.refreshIntervalMinutes } : {}),
+        createdAtISO: now,
+        updatedAtISO: now,
+    };
+    await saveFeedDefinition(feed);
+    console.log(`[Feeds] Created ${id} for ${feed.url}`);
+
+    return new Response(JSON.stringify(withSubscribeUrl(feed, new URL(request.url).origin), null, 2), {
+        status: 201,
+        headers: { "Content-Type": "application/json" },
+    });
+}
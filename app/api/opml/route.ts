@@ -0,0 +1,160 @@
+// File: app/api/opml/route.ts
+//
+// OPML export and import.
+// GET  /api/opml   — download every saved feed and tracked page as OPML 2.0
+// POST /api/opml   — import an OPML file as saved feed definitions (x-admin-password required)
+//
+// Export: saved feeds point at their stable /api/feeds/<id>/rss URL; pages
+// that were only ever requested directly point at /api/rss with the
+// parameters of their latest request.
+// Import: send the OPML as the raw request body or as the `file` field of a
+// multipart form. Each outline becomes a feed definition whose selectors are
+// resolved with `resolveSelectors`, like a link built in the dashboard, and
+// which must pass the same `validateFeedInput` checks as POST /api/feeds.
+
+import {
+    loadFeedDefinitions,
+    saveFeedDefinitions,
+    loadTrackedFeeds,
+    type FeedDefinition,
+} from "@/lib/storage";
+import { buildOpml, parseOpml, type OpmlOutline } from "@/lib/opml";
+import { generateFeedId, validateFeedInput } from "@/lib/feeds";
+import { resolveSelectors } from "@/lib/site-selectors";
+import { checkAdminAuth, unauthorizedResponse } from "@/lib/admin-auth";
+
+const MAX_IMPORT_OUTLINES = 500;
+
+export async function GET(request: Request) {
+    const origin = new URL(request.url).origin;
+    const [feeds, tracked] = await Promise.all([loadFeedDefinitions(), loadTrackedFeeds()]);
+
+    const outlines: OpmlOutline[] = Object.values(feeds)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((feed) => ({
+            title: feed.name,
+            xmlUrl: `${origin}/api/feeds/${feed.id}/rss`,
+            htmlUrl: feed.url,
+        }));
+
+    // Tracked pages already covered by a saved feed would only duplicate it
+    const savedUrls = new Set(Object.values(feeds).map((feed) => feed.url));
+    for (const entry of Object.values(tracked).sort((a, b) => a.url.localeCompare(b.url))) {
+        if (savedUrls.has(entry.url)) continue;
+        const query = new URLSearchParams({ url: entry.url, ...entry.params });
+        outlines.push({
+            title: new URL(entry.url).hostname + new URL(entry.url).pathname.replace(/\/+$/, ""),
+            xmlUrl: `${origin}/api/rss?${query}`,
+            htmlUrl: entry.url,
+        });
+    }
+
+    return new Response(buildOpml("RSS-GenAI feeds", outlines), {
+        headers: {
+            "Content-Type": "text/x-opml; charset=utf-8",
+            "Content-Disposition": 'attachment; filename="rss-genai-feeds.opml"',
+            "X-Outline-Count": `${outlines.length}`,
+        },
+    });
+}
+
+async function readOpmlBody(request: Request): Promise<string> {
+    const contentType = request.headers.get("content-type") || "";
+    if (contentType.includes("multipart/form-data")) {
+        const file = (await request.formData()).get("file");
+        if (!file || typeof file === "string") {
+            throw new Error('Multipart upload must include a "file" field');
+        }
+        return file.text();
+    }
+    return request.text();
+}
+
+export async function POST(request: Request) {
+    if (!checkAdminAuth(request)) {
+        return unauthorizedResponse();
+    }
+
+    let parsed;
+    try {
+        parsed = parseOpml(await readOpmlBody(request));
+    } catch (e) {
+        return new Response(
+            JSON.stringify({ error: "Invalid OPML", message: e instanceof Error ? e.message : String(e) }, null, 2),
+            { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+    }
+
+    if (parsed.entries.length > MAX_IMPORT_OUTLINES) {
+        return new Response(
+            JSON.stringify({ error: `Maximum ${MAX_IMPORT_OUTLINES} feeds per import`, found: parsed.entries.length }, null, 2),
+            { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+    }
+
+    const feeds = await loadFeedDefinitions();
+    const savedUrls = new Set(Object.values(feeds).map((feed) => feed.url));
+    const created: FeedDefinition[] = [];
+    const skipped = [...parsed.skipped];
+    const rejected: Array<{ outline: string; errors: string[] }> = [];
+    const now = new Date().toISOString();
+
+    for (const entry of parsed.entries) {
+        if (savedUrls.has(entry.url)) {
+            skipped.push({ outline: entry.name, reason: "already saved" });
+            continue;
+        }
+
+        // Same precedence as /api/rss: selectors in the OPML's /api/rss URL > domain config > defaults
+        const selectors = await resolveSelectors(entry.url, {
+            targetSelector: entry.params.target,
+            removeSelector: entry.params.remove,
+            waitForSelector: entry.params.waitfor,
+        });
+        const params = { ...entry.params };
+        delete params.target;
+        delete params.remove;
+        delete params.waitfor;
+        if (selectors.targetSelector) params.target = selectors.targetSelector;
+        if (selectors.removeSelector) params.remove = selectors.removeSelector;
+        if (selectors.waitForSelector) params.waitfor = selectors.waitForSelector;
+
+        // The OPML may carry any /api/rss parameters (llm, pages, ...): hold them to the feeds API's rules
+        const { input, errors } = validateFeedInput({ name: entry.name, url: entry.url, params });
+        if (errors.length > 0) {
+            rejected.push({ outline: entry.name, errors });
+            continue;
+        }
+
+        let id = generateFeedId();
+        while (feeds[id]) id = generateFeedId();
+
+        const feed: FeedDefinition = {
+            id,
+            name: input.name!,
+            url: input.url!,
+            params: input.params ?? {},
+            createdAtISO: now,
+            updatedAtISO: now,
+        };
+        feeds[id] = feed;
+        savedUrls.add(entry.url);
+        created.push(feed);
+    }
+
+    if (created.length > 0) {
+        await saveFeedDefinitions(Object.fromEntries(created.map((feed) => [feed.id, feed])));
+    }
+    console.log(`[OPML] Imported ${created.length} feeds, skipped ${skipped.length}, rejected ${rejected.length}`);
+
+    const origin = new URL(request.url).origin;
+    return new Response(
+        JSON.stringify({
+            imported: created.length,
+            skipped,
+            rejected,
+            feeds: created.map((feed) => ({ ...feed, subscribeUrl: `${origin}/api/feeds/${feed.id}/rss` })),
+        }, null, 2),
+        { headers: { "Content-Type": "application/json" } }
+    );
+}
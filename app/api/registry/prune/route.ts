@@ -0,0 +1,47 @@
+// File: app/api/registry/prune/route.ts
+//
+// Apply the registry retention policy now (x-admin-password required).
+// POST /api/registry/prune?url=<page>   — one URL
+// POST /api/registry/prune              — every saved feed and tracked page
+//
+// Retention also runs on every save; this covers registries of feeds nobody
+// polls any more and lets a new REGISTRY_MAX_* setting take effect at once.
+// Entries that were on the page at the last regeneration are always kept.
+
+import { loadRegistry, enforceRetention, loadFeedDefinitions, loadTrackedFeeds } from "@/lib/storage";
+import { currentGuids, retentionPolicy } from "@/lib/registry";
+import { checkAdminAuth, unauthorizedResponse } from "@/lib/admin-auth";
+
+export async function POST(request: Request) {
+    if (!checkAdminAuth(request)) {
+        return unauthorizedResponse();
+    }
+
+    const singleUrl = new URL(request.url).searchParams.get("url");
+    let urls: string[];
+    if (singleUrl) {
+        urls = [singleUrl];
+    } else {
+        const [feeds, tracked] = await Promise.all([loadFeedDefinitions(), loadTrackedFeeds()]);
+        urls = Array.from(new Set([
+            ...Object.values(feeds).map((feed) => feed.url),
+            ...Object.values(tracked).map((entry) => entry.url),
+        ]));
+    }
+
+    const policy = retentionPolicy();
+    const results = [];
+    for (const url of urls) {
+        const registry = await loadRegistry(url);
+        const before = Object.keys(registry).length;
+        const removed = (await enforceRetention(url, registry, currentGuids(registry))).length;
+        results.push({ url, before, removed, after: before - removed });
+    }
+
+    const totalRemoved = results.reduce((sum, result) => sum + result.removed, 0);
+    console.log(`[Registry] Prune: ${totalRemoved} entries removed across ${urls.length} URLs`);
+
+    return new Response(JSON.stringify({ retention: policy, totalRemoved, results }, null, 2), {
+        headers: { "Content-Type": "application/json" },
+    });
+}
@@ -0,0 +1,103 @@
+// File: app/api/registry/route.ts
+//
+// Admin access to a URL's article date registry (x-admin-password required).
+// GET    /api/registry?url=<page>                 — entries, newest first, plus the retention policy
+// PATCH  /api/registry?url=<page>&guid=<guid>     — override one entry's pubDate: { "pubDate": "2026-10-01" }
+// DELETE /api/registry?url=<page>&guid=<guid>     — forget one entry (it is "new" again if still listed)
+// DELETE /api/registry?url=<page>&all=true        — reset the whole registry for the URL
+//
+// Feeds read the registry on every request, so changes show up on the next fetch.
+
+import { loadRegistry, setArticlePubDate, deleteArticles, resetRegistry } from "@/lib/storage";
+import { currentGuids, parseOverrideDate, retentionPolicy } from "@/lib/registry";
+import { checkAdminAuth, unauthorizedResponse } from "@/lib/admin-auth";
+
+function jsonResponse(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body, null, 2), {
+        status,
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+function requireUrl(searchParams: URLSearchParams): string | Response {
+    const targetUrl = searchParams.get("url");
+    return targetUrl || jsonResponse({ error: 'Missing "url" parameter', usage: "/api/registry?url=https://site.com" }, 400);
+}
+
+export async function GET(request: Request) {
+    if (!checkAdminAuth(request)) {
+        return unauthorizedResponse();
+    }
+
+    const targetUrl = requireUrl(new URL(request.url).searchParams);
+    if (targetUrl instanceof Response) return targetUrl;
+
+    const registry = await loadRegistry(targetUrl);
+    const onPage = new Set(currentGuids(registry));
+    const entries = Object.values(registry)
+        .sort((a, b) => new Date(b.firstSeenISO).getTime() - new Date(a.firstSeenISO).getTime())
+        .map(({ item, ...record }) => ({ ...record, onPage: onPage.has(record.guid), hasSnapshot: Boolean(item) }));
+
+    return jsonResponse({ url: targetUrl, total: entries.length, retention: retentionPolicy(), entries });
+}
+
+export async function PATCH(request: Request) {
+    if (!checkAdminAuth(request)) {
+        return unauthorizedResponse();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const targetUrl = requireUrl(searchParams);
+    if (targetUrl instanceof Response) return targetUrl;
+    const guid = searchParams.get("guid");
+    if (!guid) return jsonResponse({ error: 'Missing "guid" parameter' }, 400);
+
+    let body: { pubDate?: unknown };
+    try {
+        body = await request.json();
+    } catch {
+        return jsonResponse({ error: "Invalid request body" }, 400);
+    }
+
+    const pubDate = parseOverrideDate(body?.pubDate);
+    if (!pubDate) {
+        return jsonResponse({ error: "pubDate: must be a parseable date (ISO 8601 or RFC 822)" }, 400);
+    }
+
+    const updated = await setArticlePubDate(targetUrl, guid, pubDate);
+    if (!updated) return jsonResponse({ error: `No registry entry for guid "${guid}"` }, 404);
+    console.log(`[Registry] ${targetUrl}: pubDate of ${guid} set to ${pubDate}`);
+
+    const { item, ...record } = updated;
+    return jsonResponse({ ...record, hasSnapshot: Boolean(item) });
+}
+
+export async function DELETE(request: Request) {
+    if (!checkAdminAuth(request)) {
+        return unauthorizedResponse();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const targetUrl = requireUrl(searchParams);
+    if (targetUrl instanceof Response) return targetUrl;
+    const guid = searchParams.get("guid");
+
+    if (searchParams.get("all") === "true") {
+        const removed = Object.keys(await loadRegistry(targetUrl)).length;
+        await resetRegistry(targetUrl);
+        console.log(`[Registry] ${targetUrl}: reset (${removed} entries removed)`);
+        return jsonResponse({ success: true, removed });
+    }
+
+    if (!guid) {
+        return jsonResponse({ error: 'Pass "guid" to delete one entry or "all=true" to reset the registry' }, 400);
+    }
+
+    const registry = await loadRegistry(targetUrl);
+    if (!registry[guid]) return jsonResponse({ error: `No registry entry for guid "${guid}"` }, 404);
+
+    await deleteArticles(targetUrl, [guid]);
+    console.log(`[Registry] ${targetUrl}: deleted ${guid}`);
+
+    return jsonResponse({ success: true, removed: 1 });
+}
@@ -8,11 +8,18 @@
 //   title     (optional) — custom title for the aggregated feed
 //   limit     (optional) — max articles per source (1-30, default 10)
 //   fulltext  (optional) — "true" to include full article content
-//   format    (optional) — "rss" (default) or "atom"
-//   source    (optional) — "auto" (default), "jina", or "markdown"
+//   format    (optional) — "rss" (default), "atom", or "json" (JSON Feed 1.1)
+//   source    (optional) — "auto" (default), "jina", "markdown", or "direct"
 //   markdownMethod (optional) — markdown.new method: "auto" (default), "ai", or "browser"
+//   native    (optional) — "never" (default), "prefer", or "only"
+//   structured (optional) — "never" (default) or "prefer"
+//   chunked   (optional) — "true" to extract long pages in chunks
+//   pages     (optional) — listing pages to extract per source (1-10)
+//   llm       (optional) — LLM backend chain passed to each source
 
-import { buildRSS, buildAtom, type RSSFeedData, type RSSItem } from "@/lib/xml-builder";
+import { buildFeed, parseFeedFormat, FEED_CONTENT_TYPES, type RSSFeedData, type RSSItem } from "@/lib/xml-builder";
+import { conditionalResponse } from "@/lib/conditional-get";
+import { INTERNAL_REQUEST_HEADER } from "@/lib/feeds";
 
 export async function GET(request: Request) {
     const { searchParams } = new URL(request.url);
@@ -28,9 +35,14 @@ export async function GET(request: Request) {
                     title: "(optional) Custom feed title",
                     limit: "(optional) Articles per source, 1-30, default 10",
                     fulltext: "(optional) 'true' for full article content",
-                    format: "(optional) 'rss' (default) or 'atom'",
-                    source: "(optional) 'auto' (default), 'jina', or 'markdown'",
+                    format: "(optional) 'rss' (default), 'atom', or 'json'",
+                    source: "(optional) 'auto' (default), 'jina', 'markdown', or 'direct'",
                     markdownMethod: "(optional) markdown.new method: 'auto' (default), 'ai', or 'browser'",
+                    native: "(optional) 'never' (default), 'prefer', or 'only'",
+                    structured: "(optional) 'never' (default) or 'prefer'",
+                    chunked: "(optional) 'true' to extract long pages in chunks",
+                    pages: "(optional) Listing pages to extract per source, 1-10",
+                    llm: "(optional) LLM backend chain, e.g. 'openai:gpt-4o-mini,ollama'",
                 },
             }, null, 2),
             { status: 400, headers: { "Content-Type": "application/json" } }
@@ -55,9 +67,14 @@ export async function GET(request: Request) {
     const customTitle = searchParams.get("title");
     const fulltext = searchParams.get("fulltext") === "true";
     const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "10", 10) || 10, 1), 30);
-    const format = searchParams.get("format") === "atom" ? "atom" : "rss";
+    const format = parseFeedFormat(searchParams.get("format"));
     const source = searchParams.get("source");
     const markdownMethod = searchParams.get("markdownMethod");
+    const native = searchParams.get("native");
+    const structured = searchParams.get("structured");
+    const chunked = searchParams.get("chunked") === "true";
+    const pages = searchParams.get("pages");
+    const llm = searchParams.get("llm");
 
     // Build the internal API URL base (same origin)
     const origin = new URL(request.url).origin;
@@ -71,16 +88,23 @@ export async function GET(request: Request) {
                 ...(fulltext ? { fulltext: "true" } : {}),
                 ...(source ? { source } : {}),
                 ...(markdownMethod ? { markdownMethod } : {}),
+                ...(native ? { native } : {}),
+                ...(structured ? { structured } : {}),
+                ...(chunked ? { chunked: "true" } : {}),
+                ...(pages ? { pages } : {}),
+                ...(llm ? { llm } : {}),
                 format: "rss", // always fetch as RSS internally for parsing
             });
 
-            const res = await fetch(`${origin}/api/rss?${params}`);
+            const res = await fetch(`${origin}/api/rss?${params}`, {
+                headers: { [INTERNAL_REQUEST_HEADER]: "1" },
+            });
             if (!res.ok) {
                 throw new Error(`Failed for ${url}: ${res.status}`);
             }
 
             const xml = await res.text();
-            return { url, xml };
+            return { url, xml, lastModified: res.headers.get("last-modified") };
         })
     );
 
@@ -88,6 +112,7 @@ export async function GET(request: Request) {
     const allItems: Array<RSSItem & { sourceUrl: string }> = [];
     const errors: string[] = [];
     const sourceNames: string[] = [];
+    let newestModified = 0;
 
     for (const result of results) {
         if (result.status === "rejected") {
@@ -95,7 +120,9 @@ export async function GET(request: Request) {
             continue;
         }
 
-        const { url, xml } = result.value;
+        const { url, xml, lastModified } = result.value;
+        const modifiedTime = lastModified ? Date.parse(lastModified) : NaN;
+        if (!isNaN(modifiedTime)) newestModified = Math.max(newestModified, modifiedTime);
 
         // Quick & simple: extract items from RSS XML using regex
         // (We control the XML format since we generated it, so this is safe)
@@ -120,6 +147,11 @@ export async function GET(request: Request) {
             // Extract content:encoded if present
             const content = block.match(/<content:encoded>([\s\S]*?)<\/content:encoded>/)?.[1]?.trim();
 
+            // Extra item fields from per-site extraction configs
+            const author = block.match(/<dc:creator>([\s\S]*?)<\/dc:creator>/)?.[1]?.trim();
+            const image = block.match(/<media:content url="([^"]*)"/)?.[1];
+            const readingTime = parseInt(block.match(/<rssgenai:readingTime>(\d+)<\/rssgenai:readingTime>/)?.[1] ?? "", 10);
+
             allItems.push({
                 title: unescapeXml(title),
                 link: unescapeXml(link),
@@ -128,6 +160,9 @@ export async function GET(request: Request) {
                 pubDate: unescapeXml(pubDate),
                 categories: categories.map(unescapeXml),
                 content: content ? content : undefined,
+                author: author ? unescapeXml(author) : undefined,
+                image: image ? unescapeXml(image) : undefined,
+                readingTime: isNaN(readingTime) ? undefined : readingTime,
                 sourceUrl: url,
             });
         }
@@ -153,22 +188,17 @@ export async function GET(request: Request) {
             description: `Aggregated feed from ${urls.length} sources`,
         },
         items: allItems,
+        // Newest source Last-Modified, so the merged body is stable while no source changes
+        lastBuildDate: newestModified > 0 ? new Date(newestModified).toUTCString() : undefined,
     };
 
-    const xml = format === "atom" ? buildAtom(feed) : buildRSS(feed);
-    const contentType = format === "atom"
-        ? "application/atom+xml; charset=utf-8"
-        : "application/xml; charset=utf-8";
-
-    return new Response(xml, {
-        headers: {
-            "Content-Type": contentType,
-            "Cache-Control": "s-maxage=86400, stale-while-revalidate=86400",
-            "X-Sources-Count": `${urls.length}`,
-            "X-Articles-Count": `${allItems.length}`,
-            "X-Errors": errors.length > 0 ? errors.join("; ") : "none",
-        },
-    });
+    return conditionalResponse(request, buildFeed(feed, format), {
+        "Content-Type": FEED_CONTENT_TYPES[format],
+        "Cache-Control": "s-maxage=86400, stale-while-revalidate=86400",
+        "X-Sources-Count": `${urls.length}`,
+        "X-Articles-Count": `${allItems.length}`,
+        "X-Errors": errors.length > 0 ? errors.join("; ") : "none",
+    }, feed.lastBuildDate);
 }
 
 /** Unescape XML entities back to plain text (since we re-escape in the builder) */
@@ -1,193 +1,216 @@
 // File: app/api/rss/route.ts
 //
 // Generates RSS/Atom feeds from any webpage using:
-//   - Jina.ai Reader / markdown.new: fetches & converts webpages to markdown
-//   - OpenAI-compatible LLM: parses content into structured JSON
+//   - Jina.ai Reader / markdown.new / direct fetch: converts webpages to markdown
+//   - OpenAI-compatible LLM backends (fallback chain): parse content into structured JSON
 //   - Programmatic XML builder: generates well-formed RSS/Atom XML
 //   - Persistent registry (Upstash Redis on Vercel, file-system locally):
 //     prevents date drift & duplicate articles across regenerations
 //
 // Query parameters:
 //   url       (required) — target webpage URL
-//   fulltext  (optional) — "true" to include full article content
+//   fulltext  (optional) — "true" to include full article content, fetched from
+//                          each article page (see lib/fulltext.ts)
 //   limit     (optional) — number of articles to extract (1-30, default 10)
-//   format    (optional) — "rss" (default) or "atom"
+//   format    (optional) — "rss" (default), "atom", or "json" (JSON Feed 1.1)
 //   refresh   (optional) — "true" to force regeneration, bypassing cache
-//   source    (optional) — "auto" (default), "jina", or "markdown"
+//   source    (optional) — "auto" (default), "jina", "markdown", "direct",
+//                          or a comma-separated provider chain (e.g. "markdown,direct")
+//   native    (optional) — "never" (default), "prefer", or "only": reuse the site's
+//                          own RSS/Atom feed instead of LLM extraction when one exists
+//   structured (optional) — "never" (default) or "prefer": build items from embedded
+//                          JSON-LD / microdata instead of LLM extraction when at least `limit` exist
+//   archive   (optional) — "true" to also serve registry items that have left the page
+//   archiveLimit (optional) — max items in archive mode (1-500, default 50)
+//   chunked   (optional) — "true" to extract pages over the LLM input cap in
+//                          structural chunks instead of truncating them
+//   pages     (optional) — listing pages to extract (1-10, default from the
+//                          domain's `pagination` config, else 1)
+//   llm       (optional) — LLM backend chain, e.g. "openai:gpt-4o-mini,ollama"
+//                          (default: the domain's `llmChain`, else LLM_CHAIN)
+//
+// Domains with an extraction recipe in their site config are extracted
+// deterministically from the raw HTML before any of the steps above.
 
-import OpenAI from "openai";
+import { createHash } from "crypto";
 import { unstable_cache, revalidateTag } from "next/cache";
-import { loadRegistry, saveRegistry } from "@/lib/storage";
-import { buildRSS, buildAtom, type RSSFeedData, type RSSItem } from "@/lib/xml-builder";
-import { resolveSelectors, type SiteSelectors } from "@/lib/site-selectors";
-
-// --- OpenAI-compatible client (lazy-initialized to avoid build-time errors) ---
+import { after } from "next/server";
+import { type ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import {
+    loadRegistry,
+    claimArticles,
+    markArticlesSeen,
+    enforceRetention,
+    saveFetchReport,
+    loadExtractionSnapshot,
+    saveExtractionSnapshot,
+    recordExtractionCheck,
+    extractionVariant,
+    trackFeed,
+    loadFeedDefinition,
+    loadArticleContent,
+    recordLLMUsage,
+    type ArticleRecord,
+    type UrlRegistry,
+} from "@/lib/storage";
+import {
+    buildFeed,
+    parseFeedFormat,
+    FEED_CONTENT_TYPES,
+    type FeedFormat,
+    type RSSFeedData,
+    type RSSItem,
+} from "@/lib/xml-builder";
+import { getSiteConfig, resolveSelectors, type SiteSelectors } from "@/lib/site-selectors";
+import { discoverNativeFeed, parseNativeFeedMode } from "@/lib/native-feed";
+import { extractStructuredData, parseStructuredDataMode } from "@/lib/structured-data";
+import { applyRecipe } from "@/lib/recipes";
+import { conditionalResponse } from "@/lib/conditional-get";
+import { checkAdminAuth } from "@/lib/admin-auth";
+import { FEED_PARAM_NAMES, INTERNAL_REQUEST_HEADER, isValidFeedId, matchesFeedQuery } from "@/lib/feeds";
+import { hubUrl, publishUpdate } from "@/lib/websub";
+import { dispatchNewArticles } from "@/lib/webhooks";
+import { canonicalizeUrl, type CanonicalUrlRules } from "@/lib/canonical-url";
+import { inferDayFirst, normalizeDate, NO_DATE } from "@/lib/dates";
+import { attachFullText } from "@/lib/fulltext";
+import { chunkTokenBudget, planChunks, type ChunkStats } from "@/lib/chunking";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import {
+    findNextPageLink,
+    findNextPageUrl,
+    pageUrl,
+    parsePageCount,
+    type PaginationStats,
+    type PaginationStop,
+} from "@/lib/pagination";
+import {
+    defaultLLMChain,
+    getLLMClient,
+    isRetryableLLMError,
+    parseLLMChain,
+    parseRequestedLLMChain,
+    resolveLLMTarget,
+} from "@/lib/llm-providers";
+import { checkLLMBudget, hasModelPrice, LLMBudgetError, type BudgetStatus } from "@/lib/usage";
+import { isUsableExtraction, parseExtraction, type ExtractionValidation } from "@/lib/extraction-schema";
+import { extraFieldPromptLines, normaliseExtraFields, siteExtraction, type SiteExtraction } from "@/lib/extraction-config";
+import {
+    DEFAULT_PROVIDER_CHAIN,
+    ProviderChainError,
+    fetchRawPage,
+    fetchWithProviderChain,
+    formatAttempts,
+    getMarkdownProvider,
+    parseMarkdownMethod,
+    parseProviderChain,
+    type MarkdownMethod,
+    type ProviderAttempt,
+} from "@/lib/markdown-providers";
+
+// --- Settings ---
+// LLM backends and their clients live in lib/llm-providers.ts.
 
-const DEFAULT_LLM_BASE_URL = "https://api.deepseek.com";
-const DEFAULT_LLM_MODEL = "deepseek-v4-flash";
 const MAX_PAGE_CONTENT_CHARS = 100_000;
+const CHUNK_CONCURRENCY = 3;
 
-let _openai: OpenAI | null = null;
-function getOpenAI(): OpenAI {
-    if (!_openai) {
-        _openai = new OpenAI({
-            apiKey: process.env.DEEPSEEK_API_KEY || process.env.OPENAI_API_KEY,
-            baseURL: process.env.DEEPSEEK_BASE_URL || process.env.OPENAI_BASE_URL || DEFAULT_LLM_BASE_URL,
-        });
-    }
-    return _openai;
-}
-
-// --- Model configuration ---
-// Supports DEEPSEEK_MODEL / OPENAI_MODEL env vars for overrides.
+// --- Cache tags ---
+// Every cached step of a feed (markdown, native feed, raw HTML, LLM output)
+// carries its target page's tag as well as the step's own tag, so
+// `refresh=true` — and with it every cron job — invalidates that one feed
+// instead of every feed's entries. Listing pages (pages > 1) carry the tag of
+// the feed they were fetched for.
 
-function getModels(): string[] {
-    const model = process.env.DEEPSEEK_MODEL || process.env.OPENAI_MODEL;
-    if (model) {
-        return [model];
-    }
-    return [DEFAULT_LLM_MODEL];
+function pageCacheTag(targetUrl: string): string {
+    return `rss-page:${createHash("sha256").update(targetUrl).digest("hex").slice(0, 16)}`;
 }
 
-// --- Markdown fetchers ---
-
-type MarkdownSource = "auto" | "jina" | "markdown";
-type MarkdownProvider = "jina" | "markdown";
-type MarkdownMethod = "auto" | "ai" | "browser";
-
-interface PageFetchResult {
-    content: string;
-    provider: MarkdownProvider;
-}
-
-function parseMarkdownSource(value: string | null): MarkdownSource {
-    if (value === "jina" || value === "markdown") {
-        return value;
-    }
-    return "auto";
-}
-
-function parseMarkdownMethod(value: string | null): MarkdownMethod {
-    if (value === "ai" || value === "browser") {
-        return value;
-    }
-    return "auto";
-}
-
-async function fetchWithJina(url: string, selectors: SiteSelectors): Promise<string> {
-    const jinaUrl = `https://r.jina.ai/${url}`;
-    
-    const headers: Record<string, string> = {
-        "Accept": "text/markdown",
-    };
-
-    if (selectors.targetSelector) {
-        headers["X-Target-Selector"] = selectors.targetSelector;
-    }
-    
-    if (selectors.removeSelector) {
-        headers["X-Remove-Selector"] = selectors.removeSelector;
-    }
-
-    if (selectors.waitForSelector) {
-        headers["X-Wait-For-Selector"] = selectors.waitForSelector;
-    }
-
-    const response = await fetch(jinaUrl, {
-        headers,
-    });
-
-    if (!response.ok) {
-        throw new Error(`Jina Reader failed: ${response.status} ${response.statusText}`);
-    }
-
-    return response.text();
-}
-
-async function fetchWithMarkdownNew(url: string, method: MarkdownMethod): Promise<string> {
-    const response = await fetch("https://markdown.new/", {
-        method: "POST",
-        headers: {
-            "Accept": "text/markdown",
-            "Content-Type": "application/json",
+// --- Markdown fetching ---
+// Providers and fallback chains live in lib/markdown-providers.ts. The fetch
+// report (/api/rss/status) is written here, on cache misses only, so it
+// describes the last time the chain actually ran rather than the last request.
+
+function fetchPageContentCache(pageTag: string) {
+    return unstable_cache(
+        async (
+            url: string,
+            providerChain: string[],
+            markdownMethod: MarkdownMethod,
+            targetSelector?: string,
+            removeSelector?: string,
+            waitForSelector?: string
+        ) => {
+            try {
+                const result = await fetchWithProviderChain(url, providerChain, {
+                    selectors: { targetSelector, removeSelector, waitForSelector },
+                    markdownMethod,
+                });
+                await saveFetchReport(url, {
+                    fetchedAtISO: new Date().toISOString(),
+                    provider: result.provider,
+                    chain: providerChain,
+                    attempts: result.attempts,
+                });
+                return result;
+            } catch (error) {
+                await saveFetchReport(url, {
+                    fetchedAtISO: new Date().toISOString(),
+                    provider: null,
+                    chain: providerChain,
+                    attempts: error instanceof ProviderChainError ? error.attempts : [],
+                });
+                throw error;
+            }
         },
-        body: JSON.stringify({
-            url,
-            method,
-        }),
-    });
+        ["markdown-fetch-v4", pageTag],
+        {
+            revalidate: 86400, // 24 hours
+            tags: ["markdown-fetch", pageTag],
+        }
+    );
+}
 
-    if (!response.ok) {
-        throw new Error(`markdown.new failed: ${response.status} ${response.statusText}`);
-    }
+// --- Native feed discovery ---
+// Cached like the markdown fetch; `refresh=true` invalidates it via the page tag.
 
-    return response.text();
+function discoverNativeFeedCache(pageTag: string) {
+    return unstable_cache(
+        async (url: string) => discoverNativeFeed(url),
+        ["native-feed-v2", pageTag],
+        {
+            revalidate: 86400, // 24 hours
+            tags: ["native-feed", pageTag],
+        }
+    );
 }
 
-async function fetchPageContent(
-    url: string,
-    source: MarkdownSource,
-    markdownMethod: MarkdownMethod,
-    selectors: SiteSelectors
-): Promise<PageFetchResult> {
-    if (source === "markdown") {
-        console.log(`[markdown.new] Fetching fresh content for: ${url} (method=${markdownMethod})`);
-        return {
-            content: await fetchWithMarkdownNew(url, markdownMethod),
-            provider: "markdown",
-        };
-    }
+// --- Raw HTML (structured data, recipes) ---
+// The extractors themselves are cheap and deterministic; only the fetch is cached.
 
-    if (source === "jina") {
-        console.log(`[Jina] Fetching fresh content for: ${url}`);
-        return {
-            content: await fetchWithJina(url, selectors),
-            provider: "jina",
-        };
-    }
-
-    try {
-        console.log(`[Jina] Fetching fresh content for: ${url}`);
-        return {
-            content: await fetchWithJina(url, selectors),
-            provider: "jina",
-        };
-    } catch (error) {
-        console.warn(`[Jina] Failed, falling back to markdown.new for ${url}:`, error);
-        return {
-            content: await fetchWithMarkdownNew(url, markdownMethod),
-            provider: "markdown",
-        };
-    }
+function fetchRawPageCache(pageTag: string) {
+    return unstable_cache(
+        async (url: string) => fetchRawPage(url),
+        ["raw-page-v2", pageTag],
+        {
+            revalidate: 86400, // 24 hours
+            tags: ["raw-page", pageTag],
+        }
+    );
 }
 
-const fetchPageContentCache = unstable_cache(
-    async (
-        url: string,
-        source: MarkdownSource,
-        markdownMethod: MarkdownMethod,
-        targetSelector?: string,
-        removeSelector?: string,
-        waitForSelector?: string
-    ) => {
-        return fetchPageContent(url, source, markdownMethod, { targetSelector, removeSelector, waitForSelector });
-    },
-    ["markdown-fetch-v2"],
-    {
-        revalidate: 86400, // 24 hours
-        tags: ["markdown-fetch"],
-    }
-);
-
 // --- LLM: Structured JSON output ---
 // Instead of asking the LLM to produce raw XML (fragile, escaping issues),
 // we ask it to produce structured JSON which we then serialise to XML.
 
-function buildSystemPrompt(limit: number, fulltext: boolean): string {
+function buildSystemPrompt(limit: number, fulltext: boolean, site: SiteExtraction): string {
     const contentInstruction = fulltext
         ? `   * "description": Brief summary (1-2 sentences)
-   * "content": The FULL article text content (preserve paragraphs, keep it readable)`
+   * "content": The FULL article text, only if this page itself contains it (otherwise omit; article pages are fetched separately)`
         : `   * "description": Brief summary (1-2 sentences)`;
+    const extraFields = site.extraFields?.length ? `,\n${extraFieldPromptLines(site.extraFields)}` : "";
+    // Site instructions narrow what counts as an item; they come last so they win
+    const siteInstructions = site.instructions
+        ? `\n\nSITE-SPECIFIC INSTRUCTIONS (follow these in addition to the rules above):\n${site.instructions}`
+        : "";
 
     return `You are an RSS feed data extractor. Parse the provided webpage content and output structured JSON (valid json).
 
@@ -204,7 +227,7 @@ OUTPUT FORMAT — respond with ONLY a JSON object (valid json), no markdown, no
       "link": "https://absolute-url-to-article",
 ${contentInstruction}
       "pubDate": "Publication date in RFC 822 format (e.g. Fri, 27 Dec 2024 00:00:00 GMT)",
-      "categories": ["tag1", "tag2"]
+      "categories": ["tag1", "tag2"]${extraFields}
     }
   ]
 }
@@ -215,12 +238,35 @@ RULES:
 3. Only include actual articles/posts, not navigation, ads, or other page elements
 4. DATES: Extract the ACTUAL publication date from the page content. Look for date patterns near article titles, bylines, or metadata. If you absolutely cannot find any date, use "NO_DATE_FOUND" — do NOT invent or guess a date.
 5. Categories: extract tags, labels, or topic categories if visible. Use an empty array [] if none found.
-6. Output ONLY the JSON object as valid json. No markdown code blocks, no explanation.`;
+6. Output ONLY the JSON object as valid json. No markdown code blocks, no explanation.${siteInstructions}`;
+}
+
+// Validation errors listed in a repair turn; the rest are summarised
+const MAX_REPAIR_ERRORS = 20;
+// A repair turn resends the whole page, so a usable extraction only gets one when
+// at least this share of its items was rejected
+const REPAIR_MIN_REJECTED_SHARE = 0.25;
+
+/** True when the output is unusable, or usable but missing a large share of its items */
+function needsRepair(extraction: ExtractionValidation): boolean {
+    if (!isUsableExtraction(extraction)) return true;
+    return extraction.total > 0 && extraction.rejected / extraction.total >= REPAIR_MIN_REJECTED_SHARE;
+}
+
+function buildRepairPrompt(errors: string[]): string {
+    const listed = errors.slice(0, MAX_REPAIR_ERRORS).map((error) => `- ${error}`);
+    if (errors.length > MAX_REPAIR_ERRORS) listed.push(`- ...and ${errors.length - MAX_REPAIR_ERRORS} more`);
+
+    return `Your previous output failed schema validation:
+${listed.join("\n")}
+
+Return the corrected, complete JSON object (valid json) in the requested format. Fix the invalid items, or leave them out if the page doesn't have the missing data — do NOT invent links or titles. Keep the valid items unchanged. Output ONLY the JSON object.`;
 }
 
 interface LLMResult {
     feedData: RSSFeedData;
-    modelUsed: string;
+    modelUsed: string;   // "backend:model" of the chain entry that succeeded
+    rejected: number;    // items dropped for schema errors (see lib/extraction-schema)
 }
 
 function trimPageContent(pageContent: string): string {
@@ -230,165 +276,715 @@ function trimPageContent(pageContent: string): string {
     return `${pageContent.slice(0, MAX_PAGE_CONTENT_CHARS)}\n\n[Content truncated to ${MAX_PAGE_CONTENT_CHARS} characters before LLM extraction.]`;
 }
 
+/**
+ * Hash of the page markdown with whitespace noise removed. Identical pages
+ * hash the same across provider re-fetches, so the stored extraction can be
+ * reused without calling the model.
+ */
+function fingerprintContent(pageContent: string): string {
+    const normalised = pageContent
+        .replace(/\r\n?/g, "\n")
+        .replace(/[ \t]+/g, " ")
+        .replace(/ *\n */g, "\n")
+        .replace(/\n{2,}/g, "\n")
+        .trim();
+    return createHash("sha256").update(normalised).digest("hex");
+}
+
 function stringField(value: unknown): string {
     return typeof value === "string" ? value.trim() : "";
 }
 
-function normaliseItems(items: unknown[]): RSSItem[] {
-    const normalised: Array<RSSItem | null> = items
-        .map((item) => {
-            const record = item && typeof item === "object" ? item as Record<string, unknown> : {};
+/**
+ * Drop rows without a title or link and normalise dates at fetch time, so
+ * "3 days ago" is anchored to now and 03/04/2024 is read the way the rest of
+ * the page (or the site's TLD) writes dates. Values that need a fallback are
+ * kept raw for `stabiliseDates` to resolve and record.
+ */
+function normaliseItems(items: unknown[], targetUrl: string, site: SiteExtraction): RSSItem[] {
+    const records = items.map((item) => item && typeof item === "object" ? item as Record<string, unknown> : {});
+    const dateHints = {
+        now: new Date(),
+        dayFirst: inferDayFirst(records.map((record) => stringField(record.pubDate)), targetUrl),
+    };
+
+    const normalised: Array<RSSItem | null> = records
+        .map((record) => {
             const title = stringField(record.title);
             const link = stringField(record.link);
             if (!title || !link) return null;
 
+            const rawDate = stringField(record.pubDate);
+            const date = normalizeDate(rawDate, dateHints);
+
             return {
                 title,
                 link,
                 guid: stringField(record.guid) || link,
                 description: stringField(record.description) || title,
-                pubDate: stringField(record.pubDate) || "NO_DATE_FOUND",
+                pubDate: (!date.fallback && date.pubDate) || rawDate || NO_DATE,
                 categories: Array.isArray(record.categories)
                     ? record.categories.map(stringField).filter(Boolean)
                     : [],
                 content: stringField(record.content) || undefined,
+                ...normaliseExtraFields(record, targetUrl, site.extraFields),
             };
         });
 
     return normalised.filter((item): item is RSSItem => item !== null);
 }
 
-const generateFeedData = unstable_cache(
-    async (targetUrl: string, pageContent: string, limit: number, fulltext: boolean): Promise<LLMResult> => {
-        const models = getModels();
-        const systemPrompt = buildSystemPrompt(limit, fulltext);
-
-        let lastError: unknown = null;
+/** Extract feed data from page markdown, walking the LLM chain (uncached; see generateFeedData) */
+async function extractFeedData(
+    targetUrl: string,
+    pageContent: string,
+    limit: number,
+    fulltext: boolean,
+    llmChain: string[],
+    feedUrl: string,
+    site: SiteExtraction
+): Promise<LLMResult> {
+    // Checked on cache misses only: cached extractions cost nothing
+    const budget = await checkLLMBudget();
+    if (budget.exhausted) {
+        console.warn(`[Usage] ${budget.exhausted} LLM budget exhausted, not extracting ${targetUrl}`);
+        throw new LLMBudgetError(budget);
+    }
 
-        for (const modelId of models) {
-            try {
-                console.log(`[RSS-Gen] Trying model: ${modelId} for ${targetUrl}`);
-                const response = await getOpenAI().chat.completions.create({
-                    model: modelId,
-                    messages: [
-                        { role: "system", content: systemPrompt },
-                        {
-                            role: "user",
-                            content: `Parse this webpage content from ${targetUrl} and extract article data. Return only a valid json object matching the requested schema:\n\n${pageContent}`,
-                        },
-                    ],
-                    temperature: 0,
-                    max_tokens: 8192,
-                    seed: 42,
-                    response_format: { type: "json_object" },
-                });
+    const systemPrompt = buildSystemPrompt(limit, fulltext, site);
+    const messages: ChatCompletionMessageParam[] = [
+        { role: "system", content: systemPrompt },
+        {
+            role: "user",
+            content: `Parse this webpage content from ${targetUrl} and extract article data. Return only a valid json object matching the requested schema:\n\n${pageContent}`,
+        },
+    ];
+
+    let lastError: unknown = null;
+    const failedBackends = new Set<string>();
+
+    for (const entry of llmChain) {
+        const target = resolveLLMTarget(entry);
+        if (!target) continue;
+        const { backend, model } = target;
+        const modelId = `${backend.name}:${model}`;
+        if (failedBackends.has(backend.name)) continue;
+
+        // Spend on an unpriced model would count as free, so a budget could never stop it
+        if ((budget.daily.limitUSD !== null || budget.monthly.limitUSD !== null) && !hasModelPrice(modelId)) {
+            console.error(`[Usage] ${modelId} has no price and an LLM budget is set; not calling it (add it to LLM_PRICES)`);
+            lastError = new Error(`No price for ${modelId} while an LLM budget is set (add it to LLM_PRICES)`);
+            continue;
+        }
 
-                const raw = response.choices[0]?.message?.content || "";
-                // Strip any markdown code fences (just in case)
-                const cleaned = raw.replace(/```(?:json)?\s*/g, "").replace(/```/g, "").trim();
+        const complete = async (conversation: ChatCompletionMessageParam[]): Promise<string> => {
+            const response = await getLLMClient(backend).chat.completions.create({
+                model,
+                messages: conversation,
+                temperature: 0,
+                max_tokens: backend.maxTokens,
+                seed: 42,
+                ...(backend.jsonMode ? { response_format: { type: "json_object" as const } } : {}),
+            });
+            // Tokens are spent whether or not the output turns out usable
+            await recordLLMUsage(feedUrl, modelId, {
+                promptTokens: response.usage?.prompt_tokens ?? 0,
+                completionTokens: response.usage?.completion_tokens ?? 0,
+            });
+            return response.choices[0]?.message?.content || "";
+        };
 
-                let parsed: RSSFeedData;
+        try {
+            console.log(`[RSS-Gen] Trying model: ${modelId} for ${targetUrl}`);
+            const raw = await complete(messages);
+            let extraction = parseExtraction(raw, targetUrl);
+
+            // One repair turn: the model sees its own output and what was wrong with it
+            const repairBudget = needsRepair(extraction) ? await checkLLMBudget() : null;
+            if (repairBudget?.exhausted) {
+                console.warn(`[Usage] ${repairBudget.exhausted} LLM budget exhausted, no repair turn for ${modelId} on ${targetUrl}`);
+                // Nothing to serve from this answer, and the rest of the chain would spend too
+                if (!isUsableExtraction(extraction)) throw new LLMBudgetError(repairBudget);
+            } else if (repairBudget) {
+                console.log(`[RSS-Gen] ${modelId} output failed validation (${extraction.errors.length} errors, first: ${extraction.errors[0]}), sending a repair turn`);
                 try {
-                    parsed = JSON.parse(cleaned) as RSSFeedData;
-                } catch (parseErr) {
-                    console.log(`[RSS-Gen] JSON parse failed for ${modelId}:`, parseErr);
-                    lastError = new Error("LLM output is not valid JSON");
-                    continue;
-                }
-
-                // Validate structure
-                if (!parsed.channel?.title || !Array.isArray(parsed.items) || parsed.items.length === 0) {
-                    console.log(`[RSS-Gen] Invalid feed structure from ${modelId}`);
-                    lastError = new Error("LLM output missing required fields");
-                    continue;
+                    const repaired = parseExtraction(await complete([
+                        ...messages,
+                        { role: "assistant", content: raw },
+                        { role: "user", content: buildRepairPrompt(extraction.errors) },
+                    ]), targetUrl);
+                    console.log(`[RSS-Gen] Repair turn from ${modelId}: ${repaired.items.length} valid items, ${repaired.errors.length} errors`);
+                    if (isUsableExtraction(repaired)
+                        && (!isUsableExtraction(extraction) || repaired.items.length >= extraction.items.length)) {
+                        extraction = repaired;
+                    }
+                } catch (repairError) {
+                    // Keep whatever the first answer had
+                    console.log(`[RSS-Gen] Repair turn from ${modelId} failed:`, repairError instanceof Error ? repairError.message : repairError);
                 }
+            }
 
-                parsed.items = normaliseItems(parsed.items);
-                if (parsed.items.length === 0) {
-                    console.log(`[RSS-Gen] No usable items from ${modelId}`);
-                    lastError = new Error("LLM output contained no usable feed items");
-                    continue;
-                }
+            if (!isUsableExtraction(extraction)) {
+                lastError = new Error(`LLM output failed schema validation: ${extraction.errors.slice(0, 3).join("; ")}`);
+                console.log(`[RSS-Gen] No usable output from ${modelId}, trying next...`);
+                continue;
+            }
 
-                console.log(`[RSS-Gen] Successfully extracted ${parsed.items.length} articles with ${modelId}`);
-                return { feedData: parsed, modelUsed: modelId };
-            } catch (error: unknown) {
-                lastError = error;
-                const statusCode = (error as { status?: number })?.status;
-                if (statusCode === 429 || statusCode === 503) {
-                    console.log(`Model ${modelId} rate-limited (${statusCode}), trying next...`);
-                    continue;
-                }
-                // For other errors, don't try the next model
-                break;
+            const items = normaliseItems(extraction.items, targetUrl, site);
+            if (extraction.rejected > 0) {
+                console.warn(`[RSS-Gen] ${modelId}: kept ${items.length} items, rejected ${extraction.rejected} (${extraction.errors.slice(0, 3).join("; ")})`);
+            }
+            console.log(`[RSS-Gen] Successfully extracted ${items.length} articles with ${modelId}`);
+            return { feedData: { channel: extraction.channel, items }, modelUsed: modelId, rejected: extraction.rejected };
+        } catch (error: unknown) {
+            if (error instanceof LLMBudgetError) throw error;
+            lastError = error;
+            const reason = (error as { status?: number })?.status ?? (error instanceof Error ? error.message : String(error));
+            if (!isRetryableLLMError(error)) {
+                // A bad request, bad key, or missing key fails the same way for this
+                // backend's other models; other backends may still succeed
+                failedBackends.add(backend.name);
             }
+            console.log(`[RSS-Gen] ${modelId} failed (${reason}), trying next...`);
         }
+    }
 
-        throw lastError || new Error("All models failed to generate feed data");
-    },
-    ["rss-generation-v3"],
-    {
+    throw lastError || new Error("All models failed to generate feed data");
+}
+
+/** `extractFeedData`, cached 24h per argument set and tagged with the feed's page tag */
+function generateFeedData(
+    targetUrl: string,
+    pageContent: string,
+    limit: number,
+    fulltext: boolean,
+    llmChain: string[],
+    feedUrl: string,
+    site: SiteExtraction
+): Promise<LLMResult> {
+    const pageTag = pageCacheTag(feedUrl);
+    return unstable_cache(extractFeedData, ["rss-generation-v8"], {
         revalidate: 86400, // 24 hours
-        tags: ["rss-generation"],
+        tags: ["rss-generation", pageTag],
+    })(targetUrl, pageContent, limit, fulltext, llmChain, feedUrl, site);
+}
+
+// --- Chunked extraction (chunked=true) ---
+
+/**
+ * Extract a page too long for one call: split it into structural chunks (see
+ * lib/chunking), run `generateFeedData` on each in parallel (every chunk is
+ * cached on its own), then merge the items in page order, dedupe them by
+ * canonical link, and apply `limit`. Fails when every chunk failed, or when
+ * the LLM budget ran out part-way (a partial page is not a good result).
+ */
+async function generateChunkedFeedData(
+    targetUrl: string,
+    pageContent: string,
+    limit: number,
+    fulltext: boolean,
+    canonicalRules: CanonicalUrlRules | undefined,
+    llmChain: string[],
+    feedUrl: string,
+    site: SiteExtraction
+): Promise<LLMResult & { chunks: ChunkStats }> {
+    const plan = planChunks(pageContent, MAX_PAGE_CONTENT_CHARS, chunkTokenBudget());
+    if (plan.dropped > 0) {
+        console.warn(`[Chunks] ${targetUrl}: token budget covers ${plan.chunks.length} chunks, dropping ${plan.dropped}`);
+    }
+
+    let lastError: unknown = null;
+    const results = await mapWithConcurrency(plan.chunks, CHUNK_CONCURRENCY, async (chunk) => {
+        try {
+            return await generateFeedData(targetUrl, chunk, limit, fulltext, llmChain, feedUrl, site);
+        } catch (error) {
+            lastError = error;
+            console.warn(`[Chunks] Chunk extraction failed for ${targetUrl}:`, error instanceof Error ? error.message : error);
+            return null;
+        }
+    });
+
+    const succeeded = results.filter((result): result is LLMResult => result !== null);
+    if (succeeded.length === 0 || lastError instanceof LLMBudgetError) {
+        throw lastError || new Error("All chunks failed to generate feed data");
+    }
+
+    const listed = new Set<string>();
+    const items: RSSItem[] = [];
+    for (const item of succeeded.flatMap((result) => result.feedData.items)) {
+        const key = canonicalizeUrl(item.link, canonicalRules);
+        if (listed.has(key)) continue;
+        listed.add(key);
+        items.push(item);
+    }
+
+    const chunks: ChunkStats = {
+        total: plan.chunks.length + plan.dropped,
+        processed: succeeded.length,
+        failed: plan.chunks.length - succeeded.length,
+        dropped: plan.dropped,
+    };
+    console.log(`[Chunks] ${targetUrl}: ${chunks.processed}/${chunks.total} chunks, ${items.length} unique items`);
+
+    return {
+        feedData: { ...succeeded[0].feedData, items: items.slice(0, limit) },
+        modelUsed: Array.from(new Set(succeeded.map((result) => result.modelUsed))).join(","),
+        rejected: succeeded.reduce((sum, result) => sum + result.rejected, 0),
+        chunks,
+    };
+}
+
+function formatChunkStats(chunks: ChunkStats): string {
+    return `total=${chunks.total}; processed=${chunks.processed}; failed=${chunks.failed}; dropped=${chunks.dropped}`;
+}
+
+// --- Pagination (pages > 1) ---
+// The first listing page goes through Step 2 as usual (fingerprint, snapshot);
+// the following pages are fetched with the same provider chain and selectors
+// and extracted the same way, chunked or truncated.
+
+interface PaginationContext {
+    feedUrl: string;    // usage is recorded against the feed, not the listing page
+    pages: number;
+    pattern?: string;
+    limit: number;
+    fulltext: boolean;
+    chunked: boolean;
+    canonicalRules: CanonicalUrlRules | undefined;
+    llmChain: string[];
+    site: SiteExtraction;
+    providerChain: string[];
+    markdownMethod: MarkdownMethod;
+    selectors: SiteSelectors;
+}
+
+/** Extract one listing page the way the request asked for (chunked or truncated) */
+async function extractListingPage(
+    url: string,
+    pageContent: string,
+    context: PaginationContext
+): Promise<LLMResult> {
+    if (context.chunked) {
+        return generateChunkedFeedData(
+            url, pageContent, context.limit, context.fulltext, context.canonicalRules, context.llmChain, context.feedUrl, context.site
+        );
+    }
+    return generateFeedData(
+        url, trimPageContent(pageContent), context.limit, context.fulltext, context.llmChain, context.feedUrl, context.site
+    );
+}
+
+/** Next-page link from the raw HTML (cached 24h), for when selectors removed it from the markdown */
+async function nextPageFromHtml(url: string, pageNumber: number, pageTag: string): Promise<string | null> {
+    try {
+        const page = await fetchRawPageCache(pageTag)(url);
+        return findNextPageLink(page.body, page.finalUrl, pageNumber);
+    } catch (error) {
+        console.warn(`[Pages] Raw HTML fetch failed for ${url}:`, error instanceof Error ? error.message : error);
+        return null;
     }
-);
+}
+
+/**
+ * Follow the listing from the already-extracted first page: page n comes from
+ * the domain's pattern, else the next-page link in page n-1's markdown (or its
+ * raw HTML). Items
+ * are merged in page order (one per canonical URL). Stops once `limit` items
+ * are collected, or after a page whose guids are all in the registry already;
+ * a failing later page ends pagination instead of failing the request.
+ */
+async function followPagination(
+    targetUrl: string,
+    firstPageContent: string,
+    firstPageItems: RSSItem[],
+    context: PaginationContext
+): Promise<{ items: RSSItem[]; stats: PaginationStats; rejected: number }> {
+    const registry = await loadRegistry(targetUrl);
+    const known = new Set(Object.keys(registry).map((guid) => canonicalizeUrl(guid, context.canonicalRules)));
+    const listed = new Set<string>();
+    const items: RSSItem[] = [];
+
+    // Returns how many of the page's items the registry hasn't seen
+    const addPage = (pageItems: RSSItem[]): number => {
+        let fresh = 0;
+        for (const item of pageItems) {
+            const key = canonicalizeUrl(item.guid || item.link, context.canonicalRules);
+            if (listed.has(key)) continue;
+            listed.add(key);
+            items.push(item);
+            if (!known.has(key)) fresh++;
+        }
+        return fresh;
+    };
+
+    let fresh = addPage(firstPageItems);
+    let currentUrl = targetUrl;
+    let currentContent = firstPageContent;
+    let fetched = 1;
+    let rejected = 0;   // schema-rejected items on the following pages
+    let stop: PaginationStop = "complete";
+    const visited = new Set([canonicalizeUrl(targetUrl)]);
+    const pageTag = pageCacheTag(context.feedUrl);
+
+    for (let n = 2; n <= context.pages; n++) {
+        if (items.length >= context.limit) {
+            stop = "limit";
+            break;
+        }
+        if (fresh === 0) {
+            stop = "no-new-items";
+            break;
+        }
+
+        const nextUrl = context.pattern
+            ? pageUrl(targetUrl, context.pattern, n)
+            : findNextPageUrl(currentContent, currentUrl, n - 1) ?? await nextPageFromHtml(currentUrl, n - 1, pageTag);
+        if (!nextUrl || visited.has(canonicalizeUrl(nextUrl))) {
+            stop = "no-next-page";
+            break;
+        }
+        visited.add(canonicalizeUrl(nextUrl));
+
+        try {
+            const page = await fetchPageContentCache(pageTag)(
+                nextUrl,
+                context.providerChain,
+                context.markdownMethod,
+                context.selectors.targetSelector,
+                context.selectors.removeSelector,
+                context.selectors.waitForSelector
+            );
+            const extracted = await extractListingPage(nextUrl, page.content, context);
+            fresh = addPage(extracted.feedData.items);
+            rejected += extracted.rejected;
+            currentUrl = nextUrl;
+            currentContent = page.content;
+            fetched++;
+        } catch (error) {
+            console.warn(`[Pages] Page ${n} (${nextUrl}) failed:`, error instanceof Error ? error.message : error);
+            stop = error instanceof LLMBudgetError ? "budget" : "error";
+            break;
+        }
+    }
+
+    console.log(`[Pages] ${targetUrl}: ${fetched}/${context.pages} pages (${stop}), ${items.length} unique items`);
+    return {
+        items: items.slice(0, context.limit),
+        stats: { requested: context.pages, fetched, stop },
+        rejected,
+    };
+}
+
+function formatPaginationStats(stats: PaginationStats): string {
+    return `requested=${stats.requested}; fetched=${stats.fetched}; stop=${stats.stop}`;
+}
+
+function formatBudget(budget: BudgetStatus): string {
+    return `exhausted=${budget.exhausted}; resets=${budget.resetsAtISO}`;
+}
 
 // --- Date stabilisation ---
 // After LLM extracts article data, we reconcile every item against the
 // persistent registry so that:
 //   1. Articles seen before keep their original pubDate (no date drift).
-//   2. Articles with "NO_DATE_FOUND" get the date they were first seen.
-//   3. Truly new articles get their LLM-extracted date (or first-seen date).
+//   2. Articles whose date is missing, unreadable, too far in the future, or
+//      implausibly old get the date they were first seen (slightly future
+//      dates are clamped to now); the reason is stored as `dateFallback`.
+//   3. Truly new articles get their normalised extracted date.
+// New guids are claimed set-if-absent (see claimArticles), so when two requests
+// race on the same page only one of them records — and announces — an article.
+// Every item's latest snapshot is kept in the registry so archive mode can
+// keep serving it after it scrolls off the source page.
+// When new articles were recorded, WebSub subscribers of this page are pushed
+// the updated feed and matching webhooks are sent the new items once the
+// response has been sent.
+
+interface ArchiveOptions {
+    limit: number;
+    fulltext: boolean;
+}
+
+const DEFAULT_ARCHIVE_LIMIT = 50;
+const MAX_ARCHIVE_LIMIT = 500;
+
+/** archive=true enables archive mode; archiveLimit caps the combined item count */
+function parseArchiveOptions(searchParams: URLSearchParams, fulltext: boolean): ArchiveOptions | null {
+    if (searchParams.get("archive") !== "true") return null;
+    const requested = parseInt(searchParams.get("archiveLimit") || "", 10);
+    const limit = isNaN(requested) ? DEFAULT_ARCHIVE_LIMIT : Math.min(Math.max(requested, 1), MAX_ARCHIVE_LIMIT);
+    return { limit, fulltext };
+}
+
+function itemTime(item: RSSItem, record?: ArticleRecord): number {
+    const published = Date.parse(item.pubDate);
+    if (!isNaN(published)) return published;
+    return record ? new Date(record.firstSeenISO).getTime() : 0;
+}
 
-async function stabiliseDates(targetUrl: string, items: RSSItem[]): Promise<RSSItem[]> {
+/** An item as kept in the registry: full text lives in the article store (lib/fulltext), not in every snapshot */
+function registrySnapshot(item: RSSItem, pubDate: string): RSSItem {
+    return { ...item, pubDate, content: undefined };
+}
+
+// Article-store reads when archive=true&fulltext=true refills archived items
+const ARCHIVE_CONTENT_CONCURRENCY = 8;
+
+/**
+ * Current items plus archived registry snapshots, newest first, capped at
+ * `archive.limit`. Older entries stored under another variant of a current
+ * item's URL are not repeated. With fulltext, archived items get their
+ * content back from the article store.
+ */
+async function withArchivedItems(
+    items: RSSItem[],
+    registry: UrlRegistry,
+    archive: ArchiveOptions,
+    canonicalRules: CanonicalUrlRules | undefined
+): Promise<RSSItem[]> {
+    const listed = new Set(items.map((item) => canonicalizeUrl(item.guid || item.link, canonicalRules)));
+    const archived = Object.values(registry)
+        .filter((record) => {
+            const key = canonicalizeUrl(record.guid, canonicalRules);
+            if (!record.item || listed.has(key)) return false;
+            listed.add(key);
+            return true;
+        })
+        .map((record) => registrySnapshot(record.item!, record.pubDate));
+    const archivedSet = new Set(archived);
+
+    const served = [...items, ...archived]
+        .map((item, index) => ({ item, index, time: itemTime(item, registry[item.guid || item.link]) }))
+        .sort((a, b) => b.time - a.time || a.index - b.index)
+        .slice(0, archive.limit)
+        .map(({ item }) => item);
+    if (!archive.fulltext) return served;
+
+    return mapWithConcurrency(served, ARCHIVE_CONTENT_CONCURRENCY, async (item) => {
+        if (!archivedSet.has(item) || !item.link) return item;
+        const stored = await loadArticleContent(item.link);
+        return stored?.content ? { ...item, content: stored.content } : item;
+    });
+}
+
+interface StabilisedItems {
+    items: RSSItem[];
+    lastBuildDate: string;   // RFC 822 of the registry's newest firstSeenISO — stable while nothing new appears
+}
+
+async function stabiliseDates(
+    origin: string,
+    targetUrl: string,
+    rawItems: RSSItem[],
+    canonicalRules: CanonicalUrlRules | undefined,
+    archive: ArchiveOptions | null
+): Promise<StabilisedItems> {
     const registry = await loadRegistry(targetUrl);
-    const nowRFC822 = new Date().toUTCString();
-    let newArticles = 0;
-    let reusedDates = 0;
+    const now = new Date();
+    const nowRFC822 = now.toUTCString();
+    const nowISO = now.toISOString();
+
+    // Key every item by its canonical URL. Entries recorded under another
+    // variant (or before canonicalization existed) are matched through the same
+    // canonical form and keep their original key, so readers see the same guid.
+    // Variants of one article listed twice on the page collapse to the first.
+    const storedByCanonical = new Map<string, ArticleRecord>();
+    for (const record of Object.values(registry)) {
+        const key = canonicalizeUrl(record.guid, canonicalRules);
+        const other = storedByCanonical.get(key);
+        if (!other || record.firstSeenISO < other.firstSeenISO) storedByCanonical.set(key, record);
+    }
+    const listed = new Set<string>();
+    const items: RSSItem[] = [];
+    for (const item of rawItems) {
+        const raw = item.guid || item.link;
+        if (!raw) {
+            items.push(item);
+            continue;
+        }
+        const canonical = canonicalizeUrl(raw, canonicalRules);
+        if (listed.has(canonical)) continue;
+        listed.add(canonical);
+        items.push({ ...item, guid: storedByCanonical.get(canonical)?.guid ?? canonical });
+    }
 
-    const stabilised: RSSItem[] = items.map((item) => {
+    // Claim unseen guids set-if-absent; a concurrent request that recorded the
+    // same article first wins and we adopt its date instead of our own
+    const proposed = new Map<string, ArticleRecord>();
+    for (const item of items) {
         const guid = item.guid || item.link;
-        if (!guid) return item;
+        if (!guid || registry[guid] || proposed.has(guid)) continue;
+
+        // New article — use its extracted date, or the time we first saw it
+        const date = normalizeDate(item.pubDate, { now });
+        const dateToStore = date.pubDate ?? nowRFC822;
+        proposed.set(guid, {
+            guid,
+            pubDate: dateToStore,
+            firstSeenISO: nowISO,
+            lastSeenISO: nowISO,
+            title: item.title,
+            item: registrySnapshot(item, dateToStore),
+            dateFallback: date.fallback,
+            rawPubDate: date.fallback && date.fallback !== "missing" ? item.pubDate : undefined,
+        });
+    }
+    const { claimed, records } = await claimArticles(targetUrl, Array.from(proposed.values()));
+    Object.assign(registry, records);
+    const claimedGuids = new Set(claimed);
 
-        const existing = registry[guid];
+    let reusedDates = 0;
+    const newItems: RSSItem[] = [];
+    const announced = new Set<string>();
+    const seen: Record<string, Pick<ArticleRecord, "lastSeenISO" | "item">> = {};
 
-        if (existing) {
-            // Article already known — always use the ORIGINAL date we stored
-            reusedDates++;
-            return { ...item, pubDate: existing.pubDate };
+    const stabilised: RSSItem[] = items.map((item) => {
+        const guid = item.guid || item.link;
+        const record = guid ? registry[guid] : undefined;
+        if (!record) return item;
+
+        // Always use the date stored when the article was first recorded
+        const stabilisedItem = { ...item, pubDate: record.pubDate };
+        if (claimedGuids.has(guid)) {
+            // Announce each claimed guid once, even if the page lists it twice
+            if (!announced.has(guid)) newItems.push(stabilisedItem);
+            announced.add(guid);
         } else {
-            // New article — determine its date
-            let dateToStore: string;
-            if (item.pubDate && item.pubDate !== "NO_DATE_FOUND") {
-                dateToStore = item.pubDate;
-            } else {
-                dateToStore = nowRFC822;
-            }
-
-            registry[guid] = {
-                guid,
-                pubDate: dateToStore,
-                firstSeenISO: new Date().toISOString(),
-                title: item.title,
-            };
-            newArticles++;
-
-            return { ...item, pubDate: dateToStore };
+            reusedDates++;
+            seen[guid] = { lastSeenISO: nowISO, item: registrySnapshot(item, record.pubDate) };
+            registry[guid] = { ...record, ...seen[guid] };
         }
+        return stabilisedItem;
     });
 
-    await saveRegistry(targetUrl, registry);
+    await markArticlesSeen(targetUrl, seen);
+    await enforceRetention(targetUrl, registry, stabilised.map((item) => item.guid || item.link));
+
+    const newArticles = newItems.length;
     console.log(
         `[DateStab] ${targetUrl}: ${newArticles} new, ${reusedDates} dates reused, ${Object.keys(registry).length} total tracked`
     );
 
-    return stabilised;
+    if (newArticles > 0) {
+        after(() => publishUpdate(origin, targetUrl));
+        after(() => dispatchNewArticles(origin, targetUrl, newItems));
+    }
+
+    const newestFirstSeen = Math.max(...Object.values(registry).map((record) => new Date(record.firstSeenISO).getTime()));
+    const lastBuildDate = isFinite(newestFirstSeen) ? new Date(newestFirstSeen).toUTCString() : nowRFC822;
+
+    return {
+        items: archive ? await withArchivedItems(stabilised, registry, archive, canonicalRules) : stabilised,
+        lastBuildDate,
+    };
+}
+
+// --- Response building ---
+
+/** Apply `limit` and drop full content unless `fulltext` was requested (non-LLM extraction paths) */
+function prepareItems(items: RSSItem[], limit: number, fulltext: boolean): RSSItem[] {
+    return items.slice(0, limit).map((item) => ({
+        ...item,
+        content: fulltext ? item.content : undefined,
+    }));
+}
+
+/**
+ * fulltext=true: fill each item's content from its article page. Returns the
+ * items plus an X-Fulltext-Articles header summarising fetched/cached/failed.
+ */
+async function withFullText(
+    items: RSSItem[],
+    fulltext: boolean,
+    chain: string[],
+    markdownMethod: MarkdownMethod
+): Promise<{ items: RSSItem[]; headers: Record<string, string> }> {
+    if (!fulltext) return { items, headers: {} };
+
+    const result = await attachFullText(items, chain, markdownMethod);
+    console.log(
+        `[FullText] ${result.fetched} fetched, ${result.cached} cached, ${result.failed} failed, ${result.skipped} skipped`
+    );
+    return {
+        items: result.items,
+        headers: {
+            "X-Fulltext-Articles": `fetched=${result.fetched}; cached=${result.cached}; failed=${result.failed}; skipped=${result.skipped}`,
+        },
+    };
+}
+
+/** Remember the URL and its parameters in the tracked-feed index (OPML export, scheduled refresh) */
+async function recordTrackedFeed(request: Request): Promise<void> {
+    const { searchParams } = new URL(request.url);
+    const targetUrl = searchParams.get("url");
+    // Saved feeds are refreshed from their own definition; internal calls aren't readers
+    if (!targetUrl || searchParams.has("feedId") || request.headers.has(INTERNAL_REQUEST_HEADER)) return;
+
+    const params: Record<string, string> = {};
+    for (const name of FEED_PARAM_NAMES) {
+        const value = searchParams.get(name);
+        if (value) params[name] = value;
+    }
+    await trackFeed(targetUrl, params);
+}
+
+/**
+ * Admin requests may use any `llm` backend, and so may a saved feed's own request
+ * (as /api/feeds/<id>/rss and cron send it): the feed pins that `llm`, and the url
+ * and every other parameter match its definition
+ */
+async function trustedLLMRequest(request: Request): Promise<boolean> {
+    const { searchParams } = new URL(request.url);
+    const llm = searchParams.get("llm");
+    if (!llm) return false;
+    if (checkAdminAuth(request)) return true;
+
+    const feedId = searchParams.get("feedId");
+    if (!feedId || !isValidFeedId(feedId)) return false;
+    const feed = await loadFeedDefinition(feedId);
+    return feed !== null && feed.params.llm === llm && matchesFeedQuery(feed, searchParams);
+}
+
+/**
+ * WebSub topic for this response: the saved feed's stable URL when proxied
+ * from /api/feeds/<id>/rss (which passes `feedId`), else the request URL without `refresh`.
+ */
+function feedSelfUrl(request: Request): string {
+    const url = new URL(request.url);
+    const feedId = url.searchParams.get("feedId");
+    if (feedId && isValidFeedId(feedId)) {
+        return `${url.origin}/api/feeds/${feedId}/rss`;
+    }
+    url.searchParams.delete("refresh");
+    return url.toString();
+}
+
+/** Serialize the feed; answers 304 when the reader's ETag / Last-Modified still match */
+async function feedResponse(
+    request: Request,
+    feed: RSSFeedData,
+    format: FeedFormat,
+    headers: Record<string, string>
+): Promise<Response> {
+    await recordTrackedFeed(request);
+    const advertised: RSSFeedData = {
+        ...feed,
+        selfUrl: feedSelfUrl(request),
+        hubUrl: hubUrl(new URL(request.url).origin),
+    };
+    return conditionalResponse(request, buildFeed(advertised, format), {
+        "Content-Type": FEED_CONTENT_TYPES[format],
+        "Cache-Control": "s-maxage=86400, stale-while-revalidate=86400",
+        ...headers,
+        "X-Article-Count": `${feed.items.length}`,
+        "X-Feed-Format": format,
+        "X-Archive": new URL(request.url).searchParams.get("archive") === "true" ? "true" : "false",
+    }, feed.lastBuildDate);
 }
 
 // --- Route Handler ---
 
 export async function GET(request: Request) {
-    const { searchParams } = new URL(request.url);
+    const { searchParams, origin } = new URL(request.url);
 
     // --- Parse query parameters ---
     const targetUrl = searchParams.get("url");
@@ -401,13 +997,20 @@ export async function GET(request: Request) {
                     url: "(required) Target webpage URL",
                     fulltext: "(optional) 'true' for full article content",
                     limit: "(optional) Number of articles, 1-30, default 10",
-                    format: "(optional) 'rss' (default) or 'atom'",
+                    format: "(optional) 'rss' (default), 'atom', or 'json'",
                     refresh: "(optional) 'true' to force regeneration",
-                    source: "(optional) 'auto' (default), 'jina', or 'markdown'",
+                    source: "(optional) 'auto' (default), 'jina', 'markdown', 'direct', or a comma-separated chain",
                     markdownMethod: "(optional) markdown.new method: 'auto' (default), 'ai', or 'browser'",
                     target: "(optional) CSS selector for exact content to extract",
                     remove: "(optional) CSS selector for elements to remove",
                     waitfor: "(optional) CSS selector to wait for before extraction",
+                    native: "(optional) 'never' (default), 'prefer', or 'only' — reuse the site's own RSS/Atom feed",
+                    structured: "(optional) 'never' (default) or 'prefer' — use embedded JSON-LD/microdata instead of the LLM when it has `limit` items",
+                    archive: "(optional) 'true' to keep serving articles that have left the page",
+                    archiveLimit: "(optional) Max articles in archive mode, 1-500, default 50",
+                    chunked: "(optional) 'true' to extract long pages in chunks instead of truncating them",
+                    pages: "(optional) Listing pages to extract, 1-10 (default from the domain config, else 1)",
+                    llm: "(optional) LLM backend chain, e.g. 'openai:gpt-4o-mini,ollama' (default: domain llmChain, else LLM_CHAIN)",
                 },
             }, null, 2),
             { status: 400, headers: { "Content-Type": "application/json" } }
@@ -416,10 +1019,14 @@ export async function GET(request: Request) {
 
     const fulltext = searchParams.get("fulltext") === "true";
     const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "10", 10) || 10, 1), 30);
-    const format = searchParams.get("format") === "atom" ? "atom" : "rss";
+    const format = parseFeedFormat(searchParams.get("format"));
     const refresh = searchParams.get("refresh") === "true";
-    const source = parseMarkdownSource(searchParams.get("source"));
+    const source = searchParams.get("source") || "auto";
     const markdownMethod = parseMarkdownMethod(searchParams.get("markdownMethod"));
+    const nativeMode = parseNativeFeedMode(searchParams.get("native"));
+    const structuredMode = parseStructuredDataMode(searchParams.get("structured"));
+    const archive = parseArchiveOptions(searchParams, fulltext);
+    const chunked = searchParams.get("chunked") === "true";
 
     const apiSelectors = {
         targetSelector: searchParams.get("target") || undefined,
@@ -428,24 +1035,118 @@ export async function GET(request: Request) {
     };
     const selectors = await resolveSelectors(targetUrl, apiSelectors);
 
-    // --- Force cache invalidation if requested ---
+    // Provider chain priority: explicit source param > per-domain chain > default chain
+    const siteConfig = await getSiteConfig(targetUrl);
+    const providerChain = parseProviderChain(source)
+        ?? parseProviderChain(siteConfig.providerChain)
+        ?? DEFAULT_PROVIDER_CHAIN;
+    const pages = parsePageCount(searchParams.get("pages"), siteConfig.pagination);
+    // LLM chain priority: explicit llm param (allowlisted) > per-domain chain > LLM_CHAIN > default
+    const domainLLMChain = parseLLMChain(siteConfig.llmChain);
+    const llmChain = parseRequestedLLMChain(
+        searchParams.get("llm"), domainLLMChain ?? [], await trustedLLMRequest(request)
+    ) ?? domainLLMChain ?? defaultLLMChain();
+    const site = siteExtraction(siteConfig);
+
+    // --- Force cache invalidation if requested (this page's entries only) ---
+    const pageTag = pageCacheTag(targetUrl);
     if (refresh) {
         console.log(`[API] Force refresh requested for: ${targetUrl}`);
-        revalidateTag("rss-generation", { expire: 0 });
-        revalidateTag("jina-fetch", { expire: 0 });
-        revalidateTag("markdown-fetch", { expire: 0 });
+        revalidateTag(pageTag, { expire: 0 });
+    }
+
+    // --- Step 0: Deterministic recipe extraction for configured domains (raw HTML cached 24h) ---
+    if (siteConfig.recipe) {
+        try {
+            const page = await fetchRawPageCache(pageTag)(targetUrl);
+            const recipe = applyRecipe(page.body, page.finalUrl, siteConfig.recipe);
+            if (recipe.items.length > 0) {
+                console.log(`[Recipe] Extracted ${recipe.items.length} items for ${targetUrl}`);
+                const full = await withFullText(prepareItems(recipe.items, limit, fulltext), fulltext, providerChain, markdownMethod);
+                const { items, lastBuildDate } = await stabiliseDates(origin, targetUrl, full.items, siteConfig.canonicalUrl, archive);
+                return feedResponse(request, { channel: recipe.channel, items, lastBuildDate }, format, {
+                    "X-Model-Used": "none",
+                    "X-Content-Source": "direct-html",
+                    "X-Extractor": "recipe",
+                    "X-Fulltext": fulltext ? "true" : "false",
+                    ...full.headers,
+                });
+            }
+            console.warn(`[Recipe] Recipe matched no items for ${targetUrl}, falling back`);
+        } catch (error) {
+            console.warn(`[Recipe] Extraction failed for ${targetUrl}:`, error);
+        }
+    }
+
+    // --- Step 0a: Reuse the site's own RSS/Atom feed if it has one (cached 24h) ---
+    if (nativeMode !== "never") {
+        try {
+            const native = await discoverNativeFeedCache(pageTag)(targetUrl);
+            if (native) {
+                const full = await withFullText(prepareItems(native.feed.items, limit, fulltext), fulltext, providerChain, markdownMethod);
+                const { items, lastBuildDate } = await stabiliseDates(origin, targetUrl, full.items, siteConfig.canonicalUrl, archive);
+                return feedResponse(request, { channel: native.feed.channel, items, lastBuildDate }, format, {
+                    "X-Model-Used": "none",
+                    "X-Content-Source": "native-feed",
+                    "X-Extractor": "native-feed",
+                    "X-Native-Feed-Url": native.feedUrl,
+                    "X-Fulltext": fulltext ? "true" : "false",
+                    ...full.headers,
+                });
+            }
+        } catch (error) {
+            console.warn(`[NativeFeed] Discovery failed for ${targetUrl}:`, error);
+        }
+
+        if (nativeMode === "only") {
+            return new Response(
+                JSON.stringify({
+                    error: "No native RSS/Atom feed found",
+                    message: "native=only was requested but the page does not advertise a usable feed",
+                    url: targetUrl,
+                }, null, 2),
+                { status: 404, headers: { "Content-Type": "application/json" } }
+            );
+        }
+    }
+
+    // --- Step 0b: Build items from embedded structured data if there is enough (cached 24h) ---
+    if (structuredMode !== "never") {
+        try {
+            const page = await fetchRawPageCache(pageTag)(targetUrl);
+            const structured = extractStructuredData(page.body, page.finalUrl);
+            // Fewer items than requested usually means a sidebar or related-posts block, not the listing
+            if (structured && structured.items.length >= limit) {
+                console.log(`[Structured] Using ${structured.items.length} ${structured.extractor} items for ${targetUrl}`);
+                const full = await withFullText(prepareItems(structured.items, limit, fulltext), fulltext, providerChain, markdownMethod);
+                const { items, lastBuildDate } = await stabiliseDates(origin, targetUrl, full.items, siteConfig.canonicalUrl, archive);
+                return feedResponse(request, { channel: structured.channel, items, lastBuildDate }, format, {
+                    "X-Model-Used": "none",
+                    "X-Content-Source": "structured-data",
+                    "X-Extractor": structured.extractor,
+                    "X-Fulltext": fulltext ? "true" : "false",
+                    ...full.headers,
+                });
+            }
+            if (structured) {
+                console.log(`[Structured] Only ${structured.items.length} ${structured.extractor} items (need ${limit}), falling back to LLM`);
+            }
+        } catch (error) {
+            console.warn(`[Structured] Extraction failed for ${targetUrl}:`, error);
+        }
     }
 
     // --- Step 1: Fetch webpage content as markdown (cached 24h) ---
     let pageContent: string;
     let contentFetchTime: number;
-    let contentProvider: MarkdownProvider;
+    let contentProvider: string;
+    let providerAttempts: ProviderAttempt[];
     try {
-        console.log(`[API] Request for: ${targetUrl} (limit=${limit}, fulltext=${fulltext}, format=${format}, source=${source})`);
+        console.log(`[API] Request for: ${targetUrl} (limit=${limit}, fulltext=${fulltext}, format=${format}, chain=${providerChain.join(">")}, llm=${llmChain.join(">")})`);
         const startTime = Date.now();
-        const fetchResult = await fetchPageContentCache(
+        const fetchResult = await fetchPageContentCache(pageTag)(
             targetUrl,
-            source,
+            providerChain,
             markdownMethod,
             selectors.targetSelector,
             selectors.removeSelector,
@@ -453,63 +1154,170 @@ export async function GET(request: Request) {
         );
         pageContent = fetchResult.content;
         contentProvider = fetchResult.provider;
+        providerAttempts = fetchResult.attempts;
         contentFetchTime = Date.now() - startTime;
         console.log(`[Markdown] ${contentFetchTime < 100 ? "Cache HIT" : "Cache MISS"} (${contentFetchTime}ms, provider=${contentProvider}) — ${pageContent.length} chars`);
     } catch (error) {
         console.error("[Markdown] Fetch error:", error);
+        const attempts = error instanceof ProviderChainError ? error.attempts : [];
         return new Response(
             JSON.stringify({
                 error: "Failed to fetch webpage content",
                 message: error instanceof Error ? error.message : String(error),
                 url: targetUrl,
+                chain: providerChain,
+                attempts,
             }, null, 2),
             { status: 502, headers: { "Content-Type": "application/json" } }
         );
     }
 
-    // --- Step 2: Extract feed data via LLM (cached 24h) ---
+    // --- Step 2: Extract feed data via LLM (content fingerprint, then cached 24h) ---
     let cacheStatus = "MISS";
     try {
         const startTime = Date.now();
-        const llmPageContent = trimPageContent(pageContent);
+        // Chunked mode hands the whole page to generateChunkedFeedData instead of truncating it
+        const llmPageContent = chunked ? pageContent : trimPageContent(pageContent);
         if (llmPageContent.length !== pageContent.length) {
             console.log(`[RSS-Gen] Truncated page content from ${pageContent.length} to ${llmPageContent.length} chars`);
         }
-        const result = await generateFeedData(targetUrl, llmPageContent, limit, fulltext);
+
+        // Reuse the stored extraction when the page is unchanged — survives cache eviction and refresh=true
+        // (one snapshot per limit/fulltext/LLM chain/site options, so other readers' options don't evict it)
+        const contentHash = fingerprintContent(llmPageContent);
+        const extractionParams = { limit, fulltext, llmChain, siteExtraction: site };
+        const variant = extractionVariant(extractionParams);
+        const snapshot = await loadExtractionSnapshot(targetUrl, variant);
+        const fingerprintHit = snapshot !== null && snapshot.contentHash === contentHash;
+
+        let result: LLMResult;
+        let chunks: ChunkStats | undefined;
+        let budget: BudgetStatus | undefined;   // set when the budget ran out and the snapshot is served
+        if (fingerprintHit) {
+            console.log(`[Fingerprint] HIT for ${targetUrl} (${contentHash.slice(0, 12)}), reusing extraction from ${snapshot.extractedAtISO}`);
+            result = { feedData: snapshot.feedData, modelUsed: snapshot.modelUsed, rejected: snapshot.rejected };
+            chunks = snapshot.chunks;
+            await recordExtractionCheck(targetUrl, variant, "HIT");
+        } else {
+            try {
+                if (chunked) {
+                    const chunkedResult = await generateChunkedFeedData(
+                        targetUrl, llmPageContent, limit, fulltext, siteConfig.canonicalUrl, llmChain, targetUrl, site
+                    );
+                    result = { feedData: chunkedResult.feedData, modelUsed: chunkedResult.modelUsed, rejected: chunkedResult.rejected };
+                    chunks = chunkedResult.chunks;
+                } else {
+                    result = await generateFeedData(targetUrl, llmPageContent, limit, fulltext, llmChain, targetUrl, site);
+                }
+            } catch (error) {
+                // Out of LLM budget: the last good extraction beats no feed at all
+                if (!(error instanceof LLMBudgetError) || !snapshot) throw error;
+                console.warn(`[Usage] ${error.message}, serving the extraction from ${snapshot.extractedAtISO} for ${targetUrl}`);
+                budget = error.budget;
+                result = {
+                    feedData: { ...snapshot.feedData, items: snapshot.feedData.items.slice(0, limit) },
+                    modelUsed: snapshot.modelUsed,
+                    rejected: snapshot.rejected,
+                };
+                chunks = snapshot.chunks;
+            }
+            // A snapshot standing in for an extraction keeps its old hash, so the
+            // page is extracted again once the budget allows
+            if (!budget) {
+                await saveExtractionSnapshot(targetUrl, {
+                    ...extractionParams,
+                    contentHash,
+                    modelUsed: result.modelUsed,
+                    feedData: result.feedData,
+                    rejected: result.rejected,
+                    extractedAtISO: new Date().toISOString(),
+                    chunks,
+                });
+                await recordExtractionCheck(targetUrl, variant, "MISS");
+            }
+        }
         const duration = Date.now() - startTime;
-        cacheStatus = duration < 100 ? "HIT" : "MISS";
+        cacheStatus = budget ? "STALE" : duration < 100 ? "HIT" : "MISS";
         console.log(`[RSS] ${cacheStatus} (${duration}ms) — ${result.feedData.items.length} articles`);
 
-        // --- Step 3: Stabilise dates against persistent registry ---
-        const stabilisedItems = await stabiliseDates(targetUrl, result.feedData.items);
+        // --- Step 2b: Following listing pages (pages > 1) ---
+        let pageItems = result.feedData.items;
+        let rejected = result.rejected;
+        let pagination: PaginationStats | undefined;
+        if (pages > 1) {
+            const paged = await followPagination(targetUrl, pageContent, pageItems, {
+                feedUrl: targetUrl,
+                pages,
+                pattern: siteConfig.pagination?.pattern,
+                limit,
+                fulltext,
+                chunked,
+                canonicalRules: siteConfig.canonicalUrl,
+                llmChain,
+                site,
+                providerChain,
+                markdownMethod,
+                selectors,
+            });
+            pageItems = paged.items;
+            rejected += paged.rejected;
+            pagination = paged.stats;
+        }
+
+        // --- Step 3: Full text from each article page (fulltext=true, stored per article) ---
+        const full = await withFullText(pageItems, fulltext, providerChain, markdownMethod);
+
+        // --- Step 4: Stabilise dates against persistent registry ---
+        const { items: stabilisedItems, lastBuildDate } = await stabiliseDates(origin, targetUrl, full.items, siteConfig.canonicalUrl, archive);
         const stabilisedFeed: RSSFeedData = {
             channel: result.feedData.channel,
             items: stabilisedItems,
+            lastBuildDate,
         };
 
-        // --- Step 4: Build XML ---
-        const xml = format === "atom" ? buildAtom(stabilisedFeed) : buildRSS(stabilisedFeed);
-        const contentType = format === "atom"
-            ? "application/atom+xml; charset=utf-8"
-            : "application/xml; charset=utf-8";
-
-        return new Response(xml, {
-            headers: {
-                "Content-Type": contentType,
-                "Cache-Control": "s-maxage=86400, stale-while-revalidate=86400",
-                "X-Model-Used": result.modelUsed,
-                "X-Content-Source": contentProvider === "jina" ? "jina-reader-filtered" : "markdown.new",
-                "X-Markdown-Source": contentProvider,
-                "X-Markdown-Method": contentProvider === "markdown" ? markdownMethod : "n/a",
-                "X-RSS-Cache-Status": cacheStatus,
-                "X-Markdown-Cache-Status": contentFetchTime < 100 ? "HIT" : "MISS",
-                "X-Markdown-Fetch-Time": `${contentFetchTime}ms`,
-                "X-Article-Count": `${stabilisedItems.length}`,
-                "X-Feed-Format": format,
-                "X-Fulltext": fulltext ? "true" : "false",
-            },
+        // --- Step 5: Build XML / JSON Feed (304 when the reader is up to date) ---
+        return feedResponse(request, stabilisedFeed, format, {
+            "X-Model-Used": result.modelUsed,
+            "X-Content-Source": getMarkdownProvider(contentProvider)?.label ?? contentProvider,
+            "X-Extractor": "llm",
+            "X-Markdown-Source": contentProvider,
+            "X-Markdown-Chain": providerChain.join(","),
+            "X-Markdown-Attempts": formatAttempts(providerAttempts),
+            "X-Markdown-Method": contentProvider === "markdown" ? markdownMethod : "n/a",
+            "X-RSS-Cache-Status": cacheStatus,
+            "X-Content-Fingerprint": fingerprintHit ? "HIT" : "MISS",
+            "X-Content-Hash": contentHash.slice(0, 16),
+            "X-Markdown-Cache-Status": contentFetchTime < 100 ? "HIT" : "MISS",
+            "X-Markdown-Fetch-Time": `${contentFetchTime}ms`,
+            "X-Fulltext": fulltext ? "true" : "false",
+            ...(chunked && chunks ? { "X-Chunks": formatChunkStats(chunks) } : {}),
+            ...(pagination ? { "X-Pages": formatPaginationStats(pagination) } : {}),
+            "X-Rejected-Items": String(rejected),
+            ...(budget ? { "X-LLM-Budget": formatBudget(budget) } : {}),
+            ...full.headers,
         });
     } catch (error: unknown) {
+        if (error instanceof LLMBudgetError) {
+            // Nothing extracted before to fall back on
+            return new Response(
+                JSON.stringify({
+                    error: "LLM budget exhausted",
+                    message: `${error.message}; no earlier extraction of this page to serve`,
+                    url: targetUrl,
+                    budget: error.budget,
+                }, null, 2),
+                {
+                    status: 503,
+                    headers: {
+                        "Content-Type": "application/json",
+                        "X-LLM-Budget": formatBudget(error.budget),
+                        ...(error.budget.resetsAtISO
+                            ? { "Retry-After": String(Math.max(Math.ceil((new Date(error.budget.resetsAtISO).getTime() - Date.now()) / 1000), 1)) }
+                            : {}),
+                    },
+                }
+            );
+        }
         console.error("RSS generation error:", error);
         return new Response(
             JSON.stringify({
@@ -5,7 +5,39 @@
 //
 // Useful for debugging when your RSS reader shows unexpected behavior.
 
-import { loadRegistry } from "@/lib/storage";
+import {
+    loadRegistry,
+    loadFetchReport,
+    loadExtractionSnapshot,
+    loadExtractionStats,
+    type ExtractionSnapshot,
+    type ExtractionStats,
+} from "@/lib/storage";
+
+/** Snapshot metadata without the stored feed body */
+function summariseExtraction(snapshot: ExtractionSnapshot | null, stats: ExtractionStats) {
+    return {
+        limit: snapshot?.limit,
+        fulltext: snapshot?.fulltext,
+        llmChain: snapshot?.llmChain,
+        contentHash: snapshot?.contentHash,
+        modelUsed: snapshot?.modelUsed,
+        extractedAt: snapshot?.extractedAtISO,
+        lastChecked: stats.lastCheckedISO,
+        lastResult: stats.lastResult,
+        fingerprintHits: stats.hits,
+        fingerprintMisses: stats.misses,
+    };
+}
+
+/** One summary per extraction variant (limit/fulltext/LLM chain/site options), most recently checked first */
+async function loadExtractions(targetUrl: string) {
+    const stats = Object.entries(await loadExtractionStats(targetUrl));
+    stats.sort(([, a], [, b]) => (b.lastCheckedISO ?? "").localeCompare(a.lastCheckedISO ?? ""));
+    return Promise.all(stats.map(async ([variant, entry]) =>
+        summariseExtraction(await loadExtractionSnapshot(targetUrl, variant), entry)
+    ));
+}
 
 export async function GET(request: Request) {
     const { searchParams } = new URL(request.url);
@@ -21,7 +53,11 @@ export async function GET(request: Request) {
         );
     }
 
-    const registry = await loadRegistry(targetUrl);
+    const [registry, lastFetch, extractions] = await Promise.all([
+        loadRegistry(targetUrl),
+        loadFetchReport(targetUrl),
+        loadExtractions(targetUrl),
+    ]);
     const articles = Object.values(registry);
 
     if (articles.length === 0) {
@@ -30,6 +66,8 @@ export async function GET(request: Request) {
                 url: targetUrl,
                 status: "no_data",
                 message: "No articles tracked for this URL. Generate a feed first with /api/rss?url=...",
+                lastFetch,
+                extractions,
             }, null, 2),
             { headers: { "Content-Type": "application/json" } }
         );
@@ -50,6 +88,12 @@ export async function GET(request: Request) {
     const newestPubDate = pubDates.length > 0 ? new Date(Math.max(...pubDates)).toUTCString() : null;
     const oldestPubDate = pubDates.length > 0 ? new Date(Math.min(...pubDates)).toUTCString() : null;
 
+    // Articles whose extracted date was missing, unreadable, in the future, or implausible
+    const dateFallbacks: Record<string, number> = {};
+    for (const article of articles) {
+        if (article.dateFallback) dateFallbacks[article.dateFallback] = (dateFallbacks[article.dateFallback] ?? 0) + 1;
+    }
+
     return new Response(
         JSON.stringify({
             url: targetUrl,
@@ -59,10 +103,15 @@ export async function GET(request: Request) {
             oldestFirstSeen,
             newestPubDate,
             oldestPubDate,
+            dateFallbacks,
+            lastFetch,
+            extractions,
             recentArticles: articles.slice(0, 5).map((a) => ({
                 title: a.title || "(untitled)",
                 guid: a.guid,
                 pubDate: a.pubDate,
+                dateFallback: a.dateFallback,
+                rawPubDate: a.rawPubDate,
                 firstSeen: a.firstSeenISO,
             })),
         }, null, 2),
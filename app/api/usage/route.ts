@@ -0,0 +1,44 @@
+// File: app/api/usage/route.ts
+//
+// LLM token usage and cost for one month, with the budget state (x-admin-password required).
+// GET /api/usage                       — this month (UTC), totals by day, feed URL, and model
+// GET /api/usage?month=2026-09         — another month
+// GET /api/usage?url=https://blog.com  — one feed URL only
+//
+// Costs use the current LLM_PRICES; models without a price count as free and
+// are listed in `unpricedModels`.
+
+import { loadMonthlyUsage, type MonthlyUsage } from "@/lib/storage";
+import { checkLLMBudget, summariseUsage } from "@/lib/usage";
+import { checkAdminAuth, unauthorizedResponse } from "@/lib/admin-auth";
+
+export async function GET(request: Request) {
+    if (!checkAdminAuth(request)) {
+        return unauthorizedResponse();
+    }
+
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get("month") || new Date().toISOString().slice(0, 7);
+    const url = searchParams.get("url");
+
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+        return new Response(
+            JSON.stringify({ error: 'Invalid "month" parameter', usage: "/api/usage?month=YYYY-MM" }, null, 2),
+            { status: 400, headers: { "Content-Type": "application/json" } }
+        );
+    }
+
+    let usage = await loadMonthlyUsage(month);
+    if (url) {
+        const filtered: MonthlyUsage = {};
+        for (const [day, urls] of Object.entries(usage)) {
+            if (urls[url]) filtered[day] = { [url]: urls[url] };
+        }
+        usage = filtered;
+    }
+
+    const budget = await checkLLMBudget();
+    return new Response(JSON.stringify({ month, url, budget, ...summariseUsage(usage) }, null, 2), {
+        headers: { "Content-Type": "application/json" },
+    });
+}
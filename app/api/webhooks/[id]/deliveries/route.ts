@@ -0,0 +1,34 @@
+// File: app/api/webhooks/[id]/deliveries/route.ts
+//
+// Delivery log for one webhook, most recent first (x-admin-password required).
+// GET /api/webhooks/<id>/deliveries            — every logged delivery with its attempts
+// GET /api/webhooks/<id>/deliveries?failed=true — only deliveries that never succeeded
+//
+// The log is shared by all webhooks and keeps the latest 200 deliveries.
+
+import { loadWebhook, loadWebhookDeliveries } from "@/lib/storage";
+import { checkAdminAuth, unauthorizedResponse } from "@/lib/admin-auth";
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+    if (!checkAdminAuth(request)) {
+        return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    const [webhook, deliveries] = await Promise.all([loadWebhook(id), loadWebhookDeliveries()]);
+    if (!webhook) {
+        return new Response(JSON.stringify({ error: `Webhook "${id}" not found` }), {
+            status: 404,
+            headers: { "Content-Type": "application/json" },
+        });
+    }
+
+    const failedOnly = new URL(request.url).searchParams.get("failed") === "true";
+    const matching = deliveries.filter((delivery) =>
+        delivery.webhookId === id && (!failedOnly || !delivery.ok)
+    );
+
+    return new Response(JSON.stringify({ webhookId: id, deliveries: matching }, null, 2), {
+        headers: { "Content-Type": "application/json" },
+    });
+}
@@ -0,0 +1,96 @@
+// File: app/api/webhooks/[id]/route.ts
+//
+// A single outgoing webhook (x-admin-password required).
+// GET    /api/webhooks/<id>  — the stored registration (secret redacted)
+// PUT    /api/webhooks/<id>  — update any of { name, endpoint, feedId | url, secret, format, template, enabled }
+// DELETE /api/webhooks/<id>  — remove it; its delivery log entries age out on their own
+
+import { loadWebhook, saveWebhook, deleteWebhook, loadFeedDefinition } from "@/lib/storage";
+import { redactWebhook, validateWebhookInput } from "@/lib/webhooks";
+import { checkAdminAuth, unauthorizedResponse } from "@/lib/admin-auth";
+
+interface WebhookRouteContext {
+    params: Promise<{ id: string }>;
+}
+
+function notFound(id: string): Response {
+    return new Response(JSON.stringify({ error: `Webhook "${id}" not found` }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+export async function GET(request: Request, { params }: WebhookRouteContext) {
+    if (!checkAdminAuth(request)) {
+        return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    const webhook = await loadWebhook(id);
+    if (!webhook) return notFound(id);
+
+    return new Response(JSON.stringify(redactWebhook(webhook), null, 2), {
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+export async function PUT(request: Request, { params }: WebhookRouteContext) {
+    if (!checkAdminAuth(request)) {
+        return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    const existing = await loadWebhook(id);
+    if (!existing) return notFound(id);
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return new Response(JSON.stringify({ error: "Invalid request body" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+        });
+    }
+
+    const { input, errors } = validateWebhookInput(body, true);
+    if (input.feedId && !(await loadFeedDefinition(input.feedId))) {
+        errors.push(`feedId: saved feed "${input.feedId}" not found`);
+    }
+    if (errors.length > 0) {
+        return new Response(JSON.stringify({ error: "Invalid webhook", details: errors }, null, 2), {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+        });
+    }
+
+    // Switching between feedId and url replaces the other
+    const webhook = {
+        ...existing,
+        ...input,
+        ...(input.feedId ? { url: undefined } : {}),
+        ...(input.url ? { feedId: undefined } : {}),
+        id,
+        updatedAtISO: new Date().toISOString(),
+    };
+    await saveWebhook(webhook);
+    console.log(`[Webhooks] Updated ${id}`);
+
+    return new Response(JSON.stringify(redactWebhook(webhook), null, 2), {
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+export async function DELETE(request: Request, { params }: WebhookRouteContext) {
+    if (!checkAdminAuth(request)) {
+        return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    if (!(await deleteWebhook(id))) return notFound(id);
+    console.log(`[Webhooks] Deleted ${id}`);
+
+    return new Response(JSON.stringify({ success: true }), {
+        headers: { "Content-Type": "application/json" },
+    });
+}
@@ -0,0 +1,85 @@
+// File: app/api/webhooks/route.ts
+//
+// Outgoing webhooks for new articles: list and create (x-admin-password required).
+// GET  /api/webhooks  — all webhooks (secrets redacted) with their latest delivery
+// POST /api/webhooks  — create { name, endpoint, feedId | url, secret?, format?, template?, enabled? }
+//
+// The secret is generated when omitted and only returned in the create response.
+
+import {
+    loadWebhooks,
+    saveWebhook,
+    loadFeedDefinition,
+    loadWebhookDeliveries,
+    type WebhookRegistration,
+} from "@/lib/storage";
+import { generateWebhookId, generateWebhookSecret, redactWebhook, validateWebhookInput } from "@/lib/webhooks";
+import { checkAdminAuth, unauthorizedResponse } from "@/lib/admin-auth";
+
+export async function GET(request: Request) {
+    if (!checkAdminAuth(request)) {
+        return unauthorizedResponse();
+    }
+
+    const [webhooks, deliveries] = await Promise.all([loadWebhooks(), loadWebhookDeliveries()]);
+    const list = Object.values(webhooks)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((webhook) => ({
+            ...redactWebhook(webhook),
+            lastDelivery: deliveries.find((delivery) => delivery.webhookId === webhook.id) ?? null,
+        }));
+
+    return new Response(JSON.stringify({ webhooks: list }, null, 2), {
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+export async function POST(request: Request) {
+    if (!checkAdminAuth(request)) {
+        return unauthorizedResponse();
+    }
+
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return new Response(JSON.stringify({ error: "Invalid request body" }), {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+        });
+    }
+
+    const { input, errors } = validateWebhookInput(body);
+    if (input.feedId && !(await loadFeedDefinition(input.feedId))) {
+        errors.push(`feedId: saved feed "${input.feedId}" not found`);
+    }
+    if (errors.length > 0) {
+        return new Response(JSON.stringify({ error: "Invalid webhook", details: errors }, null, 2), {
+            status: 400,
+            headers: { "Content-Type": "application/json" },
+        });
+    }
+
+    const now = new Date().toISOString();
+    const webhook: WebhookRegistration = {
+        id: generateWebhookId(),
+        name: input.name!,
+        endpoint: input.endpoint!,
+        feedId: input.feedId,
+        url: input.url,
+        secret: input.secret ?? generateWebhookSecret(),
+        format: input.format!,
+        template: input.template,
+        enabled: input.enabled!,
+        createdAtISO: now,
+        updatedAtISO: now,
+    };
+
+    await saveWebhook(webhook);
+    console.log(`[Webhooks] Created ${webhook.id} for ${webhook.feedId ? `feed ${webhook.feedId}` : webhook.url}`);
+
+    return new Response(JSON.stringify(webhook, null, 2), {
+        status: 201,
+        headers: { "Content-Type": "application/json" },
+    });
+}
@@ -0,0 +1,81 @@
+// File: app/api/websub/route.ts
+//
+// Built-in WebSub hub advertised by every generated feed.
+// POST /api/websub  (application/x-www-form-urlencoded)
+//   hub.mode=subscribe|unsubscribe, hub.topic, hub.callback, hub.lease_seconds?, hub.secret?
+//     → 202, then intent is verified with a GET challenge to the callback.
+//       hub.verify=sync verifies before responding (204 on success, 409 otherwise).
+//   hub.mode=publish, hub.url  (x-admin-password required)
+//     → 202, then the topic's current content is pushed to its subscribers.
+// GET  /api/websub  — usage; with x-admin-password, the stored subscriptions (secrets redacted)
+
+import { after } from "next/server";
+import { loadWebSubSubscriptions } from "@/lib/storage";
+import { parseWebSubRequest, publishUpdate, resolveTopic, verifyIntent } from "@/lib/websub";
+import { checkAdminAuth, unauthorizedResponse } from "@/lib/admin-auth";
+
+function jsonError(status: number, error: string): Response {
+    return new Response(JSON.stringify({ error }, null, 2), {
+        status,
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+export async function GET(request: Request) {
+    if (!checkAdminAuth(request)) {
+        return new Response(
+            JSON.stringify({
+                hub: new URL(request.url).origin + "/api/websub",
+                usage: "POST hub.mode=subscribe&hub.topic=<feed URL>&hub.callback=<your URL> (application/x-www-form-urlencoded)",
+                topics: "/api/rss?url=... or /api/feeds/<id>/rss on this host",
+            }, null, 2),
+            { headers: { "Content-Type": "application/json" } }
+        );
+    }
+
+    const subscriptions = Object.values(await loadWebSubSubscriptions())
+        .map((sub) => ({ ...sub, secret: sub.secret ? "(set)" : undefined }));
+    return new Response(JSON.stringify({ subscriptions }, null, 2), {
+        headers: { "Content-Type": "application/json" },
+    });
+}
+
+export async function POST(request: Request) {
+    const { origin, searchParams } = new URL(request.url);
+    const form = new URLSearchParams(await request.text());
+    // Allow hub.* fields in the query string too (some clients send them there)
+    for (const [key, value] of searchParams) {
+        if (!form.has(key)) form.set(key, value);
+    }
+
+    if (form.get("hub.mode") === "publish") {
+        if (!checkAdminAuth(request)) {
+            return unauthorizedResponse();
+        }
+        const topic = form.get("hub.url") || form.get("hub.topic") || "";
+        const targetUrl = await resolveTopic(topic, origin);
+        if (!targetUrl) {
+            return jsonError(400, "hub.url must be a feed served by this app (/api/rss?url=... or /api/feeds/<id>/rss)");
+        }
+        after(() => publishUpdate(origin, targetUrl));
+        return new Response(null, { status: 202 });
+    }
+
+    const parsed = parseWebSubRequest(form);
+    if (typeof parsed === "string") {
+        return jsonError(400, parsed);
+    }
+
+    const targetUrl = await resolveTopic(parsed.topic, origin);
+    if (!targetUrl) {
+        return jsonError(400, "hub.topic must be a feed served by this app (/api/rss?url=... or /api/feeds/<id>/rss)");
+    }
+
+    if (form.get("hub.verify") === "sync") {
+        const verified = await verifyIntent(parsed, targetUrl);
+        return verified ? new Response(null, { status: 204 }) : jsonError(409, "Intent verification failed");
+    }
+
+    after(() => verifyIntent(parsed, targetUrl));
+    return new Response(null, { status: 202 });
+}
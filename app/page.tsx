@@ -1,7 +1,33 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import type { GlobalSiteConfig } from "@/lib/storage";
+import type { FeedDefinition, GlobalSiteConfig } from "@/lib/storage";
+import type { ExtractionRecipe } from "@/lib/recipes";
+import { EXTRA_FIELDS, MAX_INSTRUCTIONS_CHARS, type ExtraField } from "@/lib/extraction-config";
+
+type RecipeForm = Record<keyof ExtractionRecipe, string>;
+
+type SavedFeed = FeedDefinition & { subscribeUrl: string };
+
+const EMPTY_RECIPE: RecipeForm = {
+  itemSelector: "",
+  titleSelector: "",
+  linkSelector: "",
+  dateSelector: "",
+  summarySelector: "",
+  categorySelector: "",
+  dateFormat: "",
+};
+
+const RECIPE_FIELDS: Array<{ key: keyof ExtractionRecipe; label: string; placeholder: string }> = [
+  { key: "itemSelector", label: "Item Container", placeholder: "article.post" },
+  { key: "titleSelector", label: "Title", placeholder: "h2" },
+  { key: "linkSelector", label: "Link", placeholder: "h2 a" },
+  { key: "dateSelector", label: "Date", placeholder: "time" },
+  { key: "summarySelector", label: "Summary", placeholder: ".excerpt" },
+  { key: "categorySelector", label: "Categories", placeholder: ".tag" },
+  { key: "dateFormat", label: "Date Format", placeholder: "DD/MM/YYYY" },
+];
 
 export default function Home() {
   const [password, setPassword] = useState("");
@@ -16,17 +42,44 @@ export default function Home() {
   const [genRemove, setGenRemove] = useState("");
   const [genWait, setGenWait] = useState("");
   const [genFulltext, setGenFulltext] = useState(false);
+  const [genArchive, setGenArchive] = useState(false);
+  const [genChunked, setGenChunked] = useState(false);
   const [genSource, setGenSource] = useState("auto");
   const [genMarkdownMethod, setGenMarkdownMethod] = useState("auto");
+  const [genNative, setGenNative] = useState("never");
+  const [genStructured, setGenStructured] = useState("never");
+  const [genFormat, setGenFormat] = useState("rss");
+  const [genPages, setGenPages] = useState("");
+  const [genLlm, setGenLlm] = useState("");
   const [generatedLink, setGeneratedLink] = useState("");
 
+  // Saved Feeds State
+  const [feeds, setFeeds] = useState<SavedFeed[]>([]);
+  const [feedName, setFeedName] = useState("");
+  const [editingFeedId, setEditingFeedId] = useState<string | null>(null);
+  const [importResult, setImportResult] = useState("");
+
   // Config Manager State
   const [newDomain, setNewDomain] = useState("");
   const [newTarget, setNewTarget] = useState("");
   const [newRemove, setNewRemove] = useState("");
   const [newWait, setNewWait] = useState("");
+  const [newChain, setNewChain] = useState("");
+  const [newRecipe, setNewRecipe] = useState<RecipeForm>(EMPTY_RECIPE);
+  const [newPages, setNewPages] = useState("");
+  const [newPagePattern, setNewPagePattern] = useState("");
+  const [newLlmChain, setNewLlmChain] = useState("");
+  const [newInstructions, setNewInstructions] = useState("");
+  const [newExtraFields, setNewExtraFields] = useState<ExtraField[]>([]);
+
+  const loadFeeds = () =>
+    fetch("/api/feeds")
+      .then((res) => res.json())
+      .then((data) => setFeeds(data.feeds || []))
+      .catch(() => setError("Failed to load saved feeds"));
 
   useEffect(() => {
+    loadFeeds();
     fetch("/api/config/selectors")
       .then((res) => res.json())
       .then((data) => {
@@ -39,24 +92,130 @@ export default function Home() {
       });
   }, []);
 
+  // Non-default generator options, shared by the plain link and saved feeds
+  const buildGenParams = () => {
+    const params: Record<string, string> = {};
+    if (genTarget) params.target = genTarget;
+    if (genRemove) params.remove = genRemove;
+    if (genWait) params.waitfor = genWait;
+    if (genFulltext) params.fulltext = "true";
+    if (genArchive) params.archive = "true";
+    if (genChunked) params.chunked = "true";
+    if (genSource !== "auto") params.source = genSource;
+    if (genMarkdownMethod !== "auto") params.markdownMethod = genMarkdownMethod;
+    if (genNative !== "never") params.native = genNative;
+    if (genStructured !== "never") params.structured = genStructured;
+    if (genFormat !== "rss") params.format = genFormat;
+    if (genPages) params.pages = genPages;
+    if (genLlm.trim()) params.llm = genLlm.trim();
+    return params;
+  };
+
   const handleGenerate = () => {
     if (!genUrl) return;
     try {
       const urlObj = new URL(window.location.href);
       const apiUrl = new URL("/api/rss", urlObj.origin);
       apiUrl.searchParams.set("url", genUrl);
-      if (genTarget) apiUrl.searchParams.set("target", genTarget);
-      if (genRemove) apiUrl.searchParams.set("remove", genRemove);
-      if (genWait) apiUrl.searchParams.set("waitfor", genWait);
-      if (genFulltext) apiUrl.searchParams.set("fulltext", "true");
-      if (genSource !== "auto") apiUrl.searchParams.set("source", genSource);
-      if (genMarkdownMethod !== "auto") apiUrl.searchParams.set("markdownMethod", genMarkdownMethod);
+      for (const [key, value] of Object.entries(buildGenParams())) {
+        apiUrl.searchParams.set(key, value);
+      }
       setGeneratedLink(apiUrl.toString());
     } catch {
       setError("Invalid base URL context");
     }
   };
 
+  const handleSaveFeed = async () => {
+    if (!genUrl || !feedName) return;
+    setSaving(true);
+    setError("");
+    try {
+      const res = await fetch(editingFeedId ? `/api/feeds/${editingFeedId}` : "/api/feeds", {
+        method: editingFeedId ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-admin-password": password,
+        },
+        body: JSON.stringify({ name: feedName, url: genUrl, params: buildGenParams() }),
+      });
+      if (!res.ok) {
+        throw new Error(await res.text());
+      }
+      const saved: SavedFeed = await res.json();
+      setGeneratedLink(saved.subscribeUrl);
+      setEditingFeedId(saved.id);
+      await loadFeeds();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to save feed (Check password)");
+    }
+    setSaving(false);
+  };
+
+  const handleEditFeed = (feed: SavedFeed) => {
+    setEditingFeedId(feed.id);
+    setFeedName(feed.name);
+    setGenUrl(feed.url);
+    setGenTarget(feed.params.target || "");
+    setGenRemove(feed.params.remove || "");
+    setGenWait(feed.params.waitfor || "");
+    setGenFulltext(feed.params.fulltext === "true");
+    setGenArchive(feed.params.archive === "true");
+    setGenChunked(feed.params.chunked === "true");
+    setGenSource(feed.params.source || "auto");
+    setGenMarkdownMethod(feed.params.markdownMethod || "auto");
+    setGenNative(feed.params.native || "never");
+    setGenStructured(feed.params.structured || "never");
+    setGenFormat(feed.params.format || "rss");
+    setGenPages(feed.params.pages || "");
+    setGenLlm(feed.params.llm || "");
+    setGeneratedLink(feed.subscribeUrl);
+  };
+
+  const handleImportOpml = async (file: File) => {
+    setSaving(true);
+    setError("");
+    setImportResult("");
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch("/api/opml", {
+        method: "POST",
+        headers: { "x-admin-password": password },
+        body: form,
+      });
+      if (!res.ok) {
+        throw new Error(await res.text());
+      }
+      const data: { imported: number; skipped: unknown[] } = await res.json();
+      setImportResult(`Imported ${data.imported} feeds, skipped ${data.skipped.length}.`);
+      await loadFeeds();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to import OPML (Check password)");
+    }
+    setSaving(false);
+  };
+
+  const handleDeleteFeed = async (feed: SavedFeed) => {
+    if (!confirm(`Delete saved feed "${feed.name}"? Subscribers will get a 404.`)) return;
+    setSaving(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/feeds/${feed.id}`, {
+        method: "DELETE",
+        headers: { "x-admin-password": password },
+      });
+      if (!res.ok) {
+        throw new Error(await res.text());
+      }
+      if (editingFeedId === feed.id) setEditingFeedId(null);
+      await loadFeeds();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to delete feed (Check password)");
+    }
+    setSaving(false);
+  };
+
   const handleSaveConfigs = async (newConfigs: GlobalSiteConfig) => {
     setSaving(true);
     setError("");
@@ -77,6 +236,13 @@ export default function Home() {
       setNewTarget("");
       setNewRemove("");
       setNewWait("");
+      setNewChain("");
+      setNewRecipe(EMPTY_RECIPE);
+      setNewPages("");
+      setNewPagePattern("");
+      setNewLlmChain("");
+      setNewInstructions("");
+      setNewExtraFields([]);
     } catch (e: unknown) {
       setError(e instanceof Error ? e.message : "Failed to save configs (Check password)");
     }
@@ -87,17 +253,59 @@ export default function Home() {
     if (!newDomain) return;
     const domain = newDomain.replace(/^https?:\/\//, "").split("/")[0].replace(/^www\./, "");
     
+    // Only include recipe fields that were filled in; no item selector means no recipe
+    const recipe = Object.fromEntries(
+      Object.entries(newRecipe).filter(([, value]) => value.trim()).map(([key, value]) => [key, value.trim()])
+    ) as Partial<ExtractionRecipe>;
+    const pagination = {
+      pages: newPages ? parseInt(newPages, 10) : undefined,
+      pattern: newPagePattern.trim() || undefined,
+    };
+
     const newConfigs = {
       ...configs,
       [domain]: {
+        // Keep fields this form doesn't manage
+        ...configs[domain],
         targetSelector: newTarget || undefined,
         removeSelector: newRemove || undefined,
         waitForSelector: newWait || undefined,
+        providerChain: newChain
+          ? newChain.split(",").map((name) => name.trim()).filter(Boolean)
+          : undefined,
+        recipe: recipe.itemSelector ? recipe as ExtractionRecipe : undefined,
+        pagination: pagination.pages || pagination.pattern ? pagination : undefined,
+        llmChain: newLlmChain
+          ? newLlmChain.split(",").map((entry) => entry.trim()).filter(Boolean)
+          : undefined,
+        instructions: newInstructions.trim() || undefined,
+        extraFields: newExtraFields.length > 0 ? newExtraFields : undefined,
       },
     };
     handleSaveConfigs(newConfigs);
   };
 
+  const handleEditConfig = (domain: string) => {
+    const config = configs[domain];
+    setNewDomain(domain);
+    setNewTarget(config.targetSelector || "");
+    setNewRemove(config.removeSelector || "");
+    setNewWait(config.waitForSelector || "");
+    setNewChain(config.providerChain?.join(",") || "");
+    setNewRecipe({ ...EMPTY_RECIPE, ...config.recipe });
+    setNewPages(config.pagination?.pages ? String(config.pagination.pages) : "");
+    setNewPagePattern(config.pagination?.pattern || "");
+    setNewLlmChain(config.llmChain?.join(",") || "");
+    setNewInstructions(config.instructions || "");
+    setNewExtraFields(config.extraFields || []);
+  };
+
+  const toggleExtraField = (field: ExtraField) => {
+    setNewExtraFields(newExtraFields.includes(field)
+      ? newExtraFields.filter((existing) => existing !== field)
+      : [...newExtraFields, field]);
+  };
+
   const handleDeleteConfig = (domain: string) => {
     if (!confirm(`Delete config for ${domain}?`)) return;
     const newConfigs = { ...configs };
@@ -111,7 +319,7 @@ export default function Home() {
         <header className="space-y-2">
           <h1 className="text-3xl font-bold tracking-tight">RSS GenAI Dashboard</h1>
           <p className="text-zinc-500 dark:text-zinc-400">
-            Generate RSS links and manage Jina.ai CSS selector configurations.
+            Generate RSS links, save them as feeds with stable URLs, and manage Jina.ai CSS selector configurations.
           </p>
         </header>
 
@@ -174,6 +382,7 @@ export default function Home() {
                 <option value="auto">Auto fallback</option>
                 <option value="jina">Jina Reader</option>
                 <option value="markdown">markdown.new</option>
+                <option value="direct">Direct fetch (local conversion)</option>
               </select>
             </div>
             <div>
@@ -188,6 +397,64 @@ export default function Home() {
                 <option value="browser">Browser</option>
               </select>
             </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Native Feed</label>
+              <select
+                value={genNative}
+                onChange={(e) => setGenNative(e.target.value)}
+                className="w-full px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-transparent focus:ring-2 focus:ring-blue-500 outline-none"
+              >
+                <option value="never">Never (always extract)</option>
+                <option value="prefer">Prefer site&apos;s own feed</option>
+                <option value="only">Only native feed</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Structured Data</label>
+              <select
+                value={genStructured}
+                onChange={(e) => setGenStructured(e.target.value)}
+                className="w-full px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-transparent focus:ring-2 focus:ring-blue-500 outline-none"
+              >
+                <option value="never">Never (always extract)</option>
+                <option value="prefer">Prefer embedded JSON-LD/microdata</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Output Format</label>
+              <select
+                value={genFormat}
+                onChange={(e) => setGenFormat(e.target.value)}
+                className="w-full px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-transparent focus:ring-2 focus:ring-blue-500 outline-none"
+              >
+                <option value="rss">RSS 2.0</option>
+                <option value="atom">Atom</option>
+                <option value="json">JSON Feed 1.1</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Listing Pages</label>
+              <select
+                value={genPages}
+                onChange={(e) => setGenPages(e.target.value)}
+                className="w-full px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-transparent focus:ring-2 focus:ring-blue-500 outline-none"
+              >
+                <option value="">Site default</option>
+                {["1", "2", "3", "5", "10"].map((count) => (
+                  <option key={count} value={count}>{count === "1" ? "First page only" : `Up to ${count} pages`}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">LLM Chain (Optional)</label>
+              <input
+                type="text"
+                value={genLlm}
+                onChange={(e) => setGenLlm(e.target.value)}
+                placeholder="deepseek,openai:gpt-4o-mini"
+                className="w-full px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-transparent focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm"
+              />
+            </div>
             <div className="flex items-center mt-6">
               <label className="flex items-center space-x-2 cursor-pointer">
                 <input
@@ -198,19 +465,66 @@ export default function Home() {
                 />
                 <span className="text-sm font-medium">Include Fulltext Content</span>
               </label>
+              <label className="flex items-center space-x-2 cursor-pointer ml-6">
+                <input
+                  type="checkbox"
+                  checked={genArchive}
+                  onChange={(e) => setGenArchive(e.target.checked)}
+                  className="rounded border-zinc-300 text-blue-600 focus:ring-blue-500 w-5 h-5"
+                />
+                <span className="text-sm font-medium">Keep Archived Articles</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer ml-6">
+                <input
+                  type="checkbox"
+                  checked={genChunked}
+                  onChange={(e) => setGenChunked(e.target.checked)}
+                  className="rounded border-zinc-300 text-blue-600 focus:ring-blue-500 w-5 h-5"
+                />
+                <span className="text-sm font-medium">Chunk Long Pages</span>
+              </label>
             </div>
           </div>
-          <div className="mt-6">
+          <div className="mt-6 flex flex-wrap items-end gap-3">
             <button
               onClick={handleGenerate}
               className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium transition-colors"
             >
               Generate URL
             </button>
+            <div className="flex-1 min-w-48">
+              <label className="block text-sm font-medium mb-1">Feed Name</label>
+              <input
+                type="text"
+                value={feedName}
+                onChange={(e) => setFeedName(e.target.value)}
+                placeholder="Example Blog"
+                className="w-full px-4 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-transparent focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+            <button
+              onClick={handleSaveFeed}
+              disabled={saving || !genUrl || !feedName}
+              className="bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white px-6 py-2 rounded-lg font-medium transition-colors"
+            >
+              {editingFeedId ? "Update Saved Feed" : "Save as Feed"}
+            </button>
+            {editingFeedId && (
+              <button
+                onClick={() => { setEditingFeedId(null); setFeedName(""); }}
+                className="text-zinc-500 hover:text-zinc-700 px-2 py-2 font-medium"
+              >
+                Save as New
+              </button>
+            )}
           </div>
           {generatedLink && (
             <div className="mt-6">
-              <label className="block text-sm font-medium mb-1 text-green-600 dark:text-green-400">Generated RSS Link (Copy this to your RSS Reader)</label>
+              <label className="block text-sm font-medium mb-1 text-green-600 dark:text-green-400">
+                {generatedLink.includes("/api/feeds/")
+                  ? "Saved Feed Link (stays the same when you edit the feed)"
+                  : "Generated RSS Link (Copy this to your RSS Reader)"}
+              </label>
               <textarea
                 readOnly
                 value={generatedLink}
@@ -222,6 +536,86 @@ export default function Home() {
           )}
         </section>
 
+        <section className="bg-white dark:bg-zinc-900 rounded-xl p-6 shadow-sm border border-zinc-200 dark:border-zinc-800">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-xl font-semibold">📚 Saved Feeds</h2>
+            <div className="flex items-center space-x-3">
+              <a
+                href="/api/opml"
+                download
+                className="text-sm font-medium text-blue-500 hover:text-blue-700"
+              >
+                Download OPML
+              </a>
+              <label className="text-sm font-medium text-blue-500 hover:text-blue-700 cursor-pointer">
+                Import OPML
+                <input
+                  type="file"
+                  accept=".opml,.xml,text/x-opml,text/xml,application/xml"
+                  className="hidden"
+                  disabled={saving}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportOpml(file);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+          {importResult && (
+            <p className="mb-4 text-sm text-green-600 dark:text-green-400">{importResult}</p>
+          )}
+          <div className="overflow-x-auto">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="border-b border-zinc-200 dark:border-zinc-800">
+                  <th className="py-3 px-4 font-semibold text-sm">Name</th>
+                  <th className="py-3 px-4 font-semibold text-sm">Target URL</th>
+                  <th className="py-3 px-4 font-semibold text-sm">Subscribe</th>
+                  <th className="py-3 px-4 font-semibold text-sm text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-200 dark:divide-zinc-800 text-sm">
+                {feeds.length === 0 ? (
+                  <tr>
+                    <td colSpan={4} className="py-8 text-center text-zinc-500">No saved feeds yet. Use &quot;Save as Feed&quot; above.</td>
+                  </tr>
+                ) : (
+                  feeds.map((feed) => (
+                    <tr key={feed.id} className="hover:bg-zinc-50 dark:hover:bg-zinc-800/50">
+                      <td className="py-3 px-4 font-medium">{feed.name}</td>
+                      <td className="py-3 px-4 text-zinc-600 dark:text-zinc-400 font-mono text-xs truncate max-w-xs" title={feed.url}>{feed.url}</td>
+                      <td className="py-3 px-4 font-mono text-xs">
+                        <a href={feed.subscribeUrl} className="text-blue-500 hover:text-blue-700" target="_blank" rel="noreferrer">
+                          /api/feeds/{feed.id}/rss
+                        </a>
+                      </td>
+                      <td className="py-3 px-4 text-right space-x-3">
+                        <button
+                          onClick={() => handleEditFeed(feed)}
+                          disabled={saving}
+                          className="text-blue-500 hover:text-blue-700 disabled:opacity-50 font-medium"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDeleteFeed(feed)}
+                          disabled={saving}
+                          className="text-red-500 hover:text-red-700 disabled:opacity-50 font-medium"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-4 text-xs text-zinc-500">Saving, editing, deleting and importing feeds uses the admin password below. The OPML download also includes pages requested directly via /api/rss.</p>
+        </section>
+
         <section className="bg-white dark:bg-zinc-900 rounded-xl p-6 shadow-sm border border-zinc-200 dark:border-zinc-800">
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-xl font-semibold">⚙️ Global Site Configs</h2>
@@ -245,17 +639,19 @@ export default function Home() {
                   <th className="py-3 px-4 font-semibold text-sm">Target</th>
                   <th className="py-3 px-4 font-semibold text-sm">Remove</th>
                   <th className="py-3 px-4 font-semibold text-sm">Wait For</th>
+                  <th className="py-3 px-4 font-semibold text-sm">Provider Chain</th>
+                  <th className="py-3 px-4 font-semibold text-sm">Recipe</th>
                   <th className="py-3 px-4 font-semibold text-sm text-right">Actions</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-zinc-200 dark:divide-zinc-800 text-sm">
                 {loading ? (
                   <tr>
-                    <td colSpan={5} className="py-8 text-center text-zinc-500">Loading configs...</td>
+                    <td colSpan={7} className="py-8 text-center text-zinc-500">Loading configs...</td>
                   </tr>
                 ) : Object.keys(configs).length === 0 ? (
                   <tr>
-                    <td colSpan={5} className="py-8 text-center text-zinc-500">No custom configurations yet.</td>
+                    <td colSpan={7} className="py-8 text-center text-zinc-500">No custom configurations yet.</td>
                   </tr>
                 ) : (
                   Object.entries(configs).map(([domain, config]) => (
@@ -264,7 +660,16 @@ export default function Home() {
                       <td className="py-3 px-4 text-zinc-600 dark:text-zinc-400 font-mono text-xs">{config.targetSelector || "-"}</td>
                       <td className="py-3 px-4 text-zinc-600 dark:text-zinc-400 font-mono text-xs truncate max-w-xs" title={config.removeSelector}>{config.removeSelector || "-"}</td>
                       <td className="py-3 px-4 text-zinc-600 dark:text-zinc-400 font-mono text-xs">{config.waitForSelector || "-"}</td>
-                      <td className="py-3 px-4 text-right">
+                      <td className="py-3 px-4 text-zinc-600 dark:text-zinc-400 font-mono text-xs">{config.providerChain?.join(" → ") || "-"}</td>
+                      <td className="py-3 px-4 text-zinc-600 dark:text-zinc-400 font-mono text-xs">{config.recipe?.itemSelector || "-"}</td>
+                      <td className="py-3 px-4 text-right space-x-3">
+                        <button
+                          onClick={() => handleEditConfig(domain)}
+                          disabled={saving}
+                          className="text-blue-500 hover:text-blue-700 disabled:opacity-50 font-medium"
+                        >
+                          Edit
+                        </button>
                         <button
                           onClick={() => handleDeleteConfig(domain)}
                           disabled={saving}
@@ -282,7 +687,7 @@ export default function Home() {
 
           <div className="mt-8 border-t border-zinc-200 dark:border-zinc-800 pt-6">
             <h3 className="text-lg font-medium mb-4">Add New Config</h3>
-            <div className="grid gap-4 md:grid-cols-5 items-end">
+            <div className="grid gap-4 md:grid-cols-6 items-end">
               <div className="md:col-span-1">
                 <label className="block text-xs font-medium mb-1 text-zinc-500">Domain Name</label>
                 <input
@@ -320,6 +725,16 @@ export default function Home() {
                   className="w-full px-3 py-2 rounded-md border border-zinc-300 dark:border-zinc-700 bg-transparent outline-none text-sm font-mono"
                 />
               </div>
+              <div className="md:col-span-1">
+                <label className="block text-xs font-medium mb-1 text-zinc-500">Provider Chain</label>
+                <input
+                  type="text"
+                  value={newChain}
+                  onChange={(e) => setNewChain(e.target.value)}
+                  placeholder="markdown,jina,direct"
+                  className="w-full px-3 py-2 rounded-md border border-zinc-300 dark:border-zinc-700 bg-transparent outline-none text-sm font-mono"
+                />
+              </div>
               <div className="md:col-span-1">
                 <button
                   onClick={handleAddConfig}
@@ -330,6 +745,87 @@ export default function Home() {
                 </button>
               </div>
             </div>
+            <h4 className="text-sm font-medium mt-6 mb-1">LLM Extraction (Optional)</h4>
+            <p className="text-xs text-zinc-500 mb-3">
+              Instructions are appended to the extraction prompt for this domain. Extra fields are extracted for each item and added to the feed.
+            </p>
+            <textarea
+              value={newInstructions}
+              onChange={(e) => setNewInstructions(e.target.value)}
+              placeholder="Only extract items under the 'Research' heading. Ignore the 'Popular posts' sidebar and press releases."
+              rows={3}
+              maxLength={MAX_INSTRUCTIONS_CHARS}
+              className="w-full px-3 py-2 rounded-md border border-zinc-300 dark:border-zinc-700 bg-transparent outline-none text-sm"
+            />
+            <div className="flex flex-wrap gap-4 mt-3">
+              {(Object.keys(EXTRA_FIELDS) as ExtraField[]).map((field) => (
+                <label key={field} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={newExtraFields.includes(field)}
+                    onChange={() => toggleExtraField(field)}
+                  />
+                  {EXTRA_FIELDS[field].label}
+                </label>
+              ))}
+            </div>
+            <h4 className="text-sm font-medium mt-6 mb-1">Extraction Recipe (Optional)</h4>
+            <p className="text-xs text-zinc-500 mb-3">
+              Selectors run against the raw HTML to build items without the LLM. Leave Item Container empty for no recipe.
+            </p>
+            <div className="grid gap-4 md:grid-cols-4">
+              {RECIPE_FIELDS.map(({ key, label, placeholder }) => (
+                <div key={key}>
+                  <label className="block text-xs font-medium mb-1 text-zinc-500">{label}</label>
+                  <input
+                    type="text"
+                    value={newRecipe[key]}
+                    onChange={(e) => setNewRecipe({ ...newRecipe, [key]: e.target.value })}
+                    placeholder={placeholder}
+                    className="w-full px-3 py-2 rounded-md border border-zinc-300 dark:border-zinc-700 bg-transparent outline-none text-sm font-mono"
+                  />
+                </div>
+              ))}
+            </div>
+            <h4 className="text-sm font-medium mt-6 mb-1">Pagination (Optional)</h4>
+            <p className="text-xs text-zinc-500 mb-3">
+              Listing pages extracted when a feed doesn&apos;t set Listing Pages. Without a pattern, the page&apos;s &quot;next&quot; link is followed.
+            </p>
+            <div className="grid gap-4 md:grid-cols-4">
+              <div>
+                <label className="block text-xs font-medium mb-1 text-zinc-500">Pages</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={newPages}
+                  onChange={(e) => setNewPages(e.target.value)}
+                  placeholder="1"
+                  className="w-full px-3 py-2 rounded-md border border-zinc-300 dark:border-zinc-700 bg-transparent outline-none text-sm font-mono"
+                />
+              </div>
+              <div className="md:col-span-3">
+                <label className="block text-xs font-medium mb-1 text-zinc-500">Page URL Pattern</label>
+                <input
+                  type="text"
+                  value={newPagePattern}
+                  onChange={(e) => setNewPagePattern(e.target.value)}
+                  placeholder="/page/{n}/ or ?page={n}"
+                  className="w-full px-3 py-2 rounded-md border border-zinc-300 dark:border-zinc-700 bg-transparent outline-none text-sm font-mono"
+                />
+              </div>
+            </div>
+            <h4 className="text-sm font-medium mt-6 mb-1">LLM Chain (Optional)</h4>
+            <p className="text-xs text-zinc-500 mb-3">
+              Backends tried in order for this domain, each optionally with a model. Empty uses LLM_CHAIN.
+            </p>
+            <input
+              type="text"
+              value={newLlmChain}
+              onChange={(e) => setNewLlmChain(e.target.value)}
+              placeholder="openai:gpt-4o-mini,deepseek,ollama"
+              className="w-full px-3 py-2 rounded-md border border-zinc-300 dark:border-zinc-700 bg-transparent outline-none text-sm font-mono"
+            />
           </div>
         </section>
       </div>
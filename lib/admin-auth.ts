@@ -0,0 +1,31 @@
+// lib/admin-auth.ts
+// Shared admin check for write endpoints (site configs, saved feeds).
+// Clients send the password in the `x-admin-password` header.
+// Cron endpoints use a separate CRON_SECRET (see checkCronSecret).
+
+export function checkAdminAuth(request: Request): boolean {
+    const authHeader = request.headers.get("x-admin-password");
+    const adminPassword = process.env.ADMIN_PASSWORD || "rss-genai-2k";
+
+    return authHeader === adminPassword;
+}
+
+export function unauthorizedResponse(): Response {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { "Content-Type": "application/json" }
+    });
+}
+
+/**
+ * Vercel Cron sends `Authorization: Bearer $CRON_SECRET`; external schedulers
+ * may use `?secret=` instead. Always false when CRON_SECRET is unset.
+ */
+export function checkCronSecret(request: Request): boolean {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) return false;
+
+    const bearer = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+    const querySecret = new URL(request.url).searchParams.get("secret");
+    return bearer === secret || querySecret === secret;
+}
@@ -0,0 +1,126 @@
+// lib/canonical-url.ts
+// Canonical article URLs for registry keys.
+//
+// The LLM (and many sites) emit the same article under slightly different URLs:
+// http vs https, www or not, a trailing slash, utm_* tracking parameters, a
+// #comments fragment. Each variant used to become its own registry entry with
+// its own first-seen date, so readers saw duplicates. `stabiliseDates` keys the
+// registry by the canonical form instead. Per-domain `canonicalUrl` rules in
+// the site config strip a site's own noise parameters, or keep one that the
+// default tracking list would strip but that identifies the article there.
+
+// --- Types ---
+
+export interface CanonicalUrlRules {
+    keepParams?: string[];     // never stripped, even if they look like tracking params
+    dropParams?: string[];     // extra params to strip; "*" strips the whole query string
+    trailingSlash?: "strip" | "keep";   // default "strip"
+}
+
+// --- Settings ---
+
+const TRACKING_PARAMS = new Set([
+    "fbclid",
+    "gclid",
+    "gclsrc",
+    "dclid",
+    "msclkid",
+    "yclid",
+    "twclid",
+    "igshid",
+    "mc_cid",
+    "mc_eid",
+    "_ga",
+    "_gl",
+    "_hsenc",
+    "_hsmi",
+    "mkt_tok",
+    "oly_anon_id",
+    "oly_enc_id",
+    "vero_id",
+    "ref_src",
+    "ref_url",
+    "spm",
+]);
+
+const TRACKING_PREFIXES = ["utm_", "pk_", "mtm_"];
+
+// --- Validation ---
+
+/** Returns a list of problems (prefixed with `path`); empty when the rules are valid */
+export function validateCanonicalRules(rules: unknown, path = "canonicalUrl"): string[] {
+    if (!rules || typeof rules !== "object" || Array.isArray(rules)) {
+        return [`${path}: must be an object`];
+    }
+
+    const record = rules as Record<string, unknown>;
+    const errors: string[] = [];
+
+    for (const field of ["keepParams", "dropParams"] as const) {
+        const value = record[field];
+        if (value === undefined) continue;
+        if (!Array.isArray(value) || value.some((param) => typeof param !== "string" || !param)) {
+            errors.push(`${path}.${field}: must be an array of parameter names`);
+        }
+    }
+
+    if (record.trailingSlash !== undefined && record.trailingSlash !== "strip" && record.trailingSlash !== "keep") {
+        errors.push(`${path}.trailingSlash: must be "strip" or "keep"`);
+    }
+
+    for (const key of Object.keys(record)) {
+        if (key !== "keepParams" && key !== "dropParams" && key !== "trailingSlash") {
+            errors.push(`${path}.${key}: unknown field`);
+        }
+    }
+
+    return errors;
+}
+
+// --- Canonicalization ---
+
+function isTrackingParam(name: string): boolean {
+    const lower = name.toLowerCase();
+    return TRACKING_PARAMS.has(lower) || TRACKING_PREFIXES.some((prefix) => lower.startsWith(prefix));
+}
+
+/**
+ * Canonical form of an http(s) URL: https, lower-case host without "www." or
+ * a default port, no fragment, tracking parameters removed, remaining
+ * parameters sorted, and no trailing slash (unless `trailingSlash: "keep"`).
+ * Anything that isn't an http(s) URL (e.g. a "tag:" guid) is returned trimmed.
+ */
+export function canonicalizeUrl(value: string, rules: CanonicalUrlRules = {}): string {
+    const trimmed = value.trim();
+    let url: URL;
+    try {
+        url = new URL(trimmed);
+    } catch {
+        return trimmed;
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") return trimmed;
+
+    url.protocol = "https:";
+    url.hostname = url.hostname.replace(/^www\./, "");
+    if (url.port === "80" || url.port === "443") url.port = "";
+    url.hash = "";
+    url.username = "";
+    url.password = "";
+
+    const keep = new Set((rules.keepParams ?? []).map((param) => param.toLowerCase()));
+    const drop = new Set((rules.dropParams ?? []).map((param) => param.toLowerCase()));
+    const params = Array.from(url.searchParams.entries())
+        .filter(([name]) => {
+            const lower = name.toLowerCase();
+            if (keep.has(lower)) return true;
+            return !drop.has("*") && !drop.has(lower) && !isTrackingParam(name);
+        })
+        .sort(([a, aValue], [b, bValue]) => a.localeCompare(b) || aValue.localeCompare(bValue));
+    url.search = new URLSearchParams(params).toString();
+
+    if (rules.trailingSlash !== "keep" && url.pathname.length > 1) {
+        url.pathname = url.pathname.replace(/\/+$/, "") || "/";
+    }
+
+    return url.toString();
+}
@@ -0,0 +1,124 @@
+// lib/chunking.ts
+// Structural chunking of page markdown for chunked LLM extraction.
+//
+// One LLM call only sees MAX_PAGE_CONTENT_CHARS, so items lower on long
+// archive pages used to be cut off silently. With chunked=true the route
+// splits the markdown here — on headings, then list items, then paragraphs —
+// into chunks under that cap, extracts them in parallel, and merges the items.
+// A token budget bounds how many chunks one request may spend on; chunks past
+// it are dropped and reported rather than extracted.
+
+// --- Types ---
+
+export interface ChunkPlan {
+    chunks: string[];    // chunks to extract, in page order
+    dropped: number;     // chunks over the token budget
+}
+
+export interface ChunkStats {
+    total: number;       // chunks the page split into
+    processed: number;   // extracted successfully
+    failed: number;      // extraction failed
+    dropped: number;     // over the token budget, never sent
+}
+
+// --- Settings ---
+
+// Rough size of a token in English/markdown text; only used for budgeting
+const CHARS_PER_TOKEN = 4;
+
+// System prompt and instructions sent with every chunk
+const CALL_OVERHEAD_TOKENS = 1000;
+
+const PREAMBLE_LINE = /^(Title|URL Source|Published Time|Markdown Content):/;
+
+// Boundaries tried in order: headings (ATX or setext), list items, paragraphs,
+// lines — each with the separator that puts the pieces back together
+const BOUNDARIES: Array<{ pattern: RegExp; joiner: string }> = [
+    { pattern: /\n(?=#{1,6}\s|[^\n]+\n(?:=+|-+)[ \t]*(?:\n|$))/, joiner: "\n" },
+    { pattern: /\n(?=[ \t]*(?:[-*+]|\d+[.)])\s)/, joiner: "\n" },
+    { pattern: /\n{2,}/, joiner: "\n\n" },
+    { pattern: /\n/, joiner: "\n" },
+];
+
+export function chunkTokenBudget(): number {
+    const value = parseInt(process.env.CHUNK_TOKEN_BUDGET || "", 10);
+    return isNaN(value) || value <= 0 ? 100_000 : value;
+}
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// --- Splitting ---
+
+/** Pack pieces greedily into chunks of at most `maxChars`, splitting oversized pieces at the next boundary */
+function pack(pieces: string[], maxChars: number, level: number): string[] {
+    const { joiner } = BOUNDARIES[level];
+    const chunks: string[] = [];
+    let current = "";
+
+    for (const piece of pieces) {
+        if (piece.length > maxChars) {
+            if (current) chunks.push(current);
+            current = "";
+            chunks.push(...splitAt(piece, maxChars, level + 1));
+        } else if (current && current.length + joiner.length + piece.length > maxChars) {
+            chunks.push(current);
+            current = piece;
+        } else {
+            current = current ? `${current}${joiner}${piece}` : piece;
+        }
+    }
+    if (current) chunks.push(current);
+    return chunks;
+}
+
+function splitAt(text: string, maxChars: number, level: number): string[] {
+    if (text.length <= maxChars) return [text];
+
+    const boundary = BOUNDARIES[level];
+    if (!boundary) {
+        // No structure left (e.g. one enormous line): cut at the cap
+        const pieces: string[] = [];
+        for (let i = 0; i < text.length; i += maxChars) pieces.push(text.slice(i, i + maxChars));
+        return pieces;
+    }
+
+    const pieces = text.split(boundary.pattern).filter((piece) => piece.trim());
+    return pieces.length > 1 ? pack(pieces, maxChars, level) : splitAt(text, maxChars, level + 1);
+}
+
+/**
+ * Split page markdown into chunks of at most `maxChars`, each starting with the
+ * page's reader preamble (Title / URL Source) so every chunk knows its page.
+ */
+export function splitMarkdown(markdown: string, maxChars: number): string[] {
+    const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+    let bodyStart = 0;
+    while (bodyStart < lines.length && (PREAMBLE_LINE.test(lines[bodyStart]) || !lines[bodyStart].trim())) {
+        bodyStart++;
+    }
+
+    const preamble = lines.slice(0, bodyStart).filter((line) => line.trim()).join("\n");
+    const body = lines.slice(bodyStart).join("\n");
+    const header = preamble ? `${preamble}\n\n` : "";
+
+    return splitAt(body, Math.max(maxChars - header.length, 1000), 0).map((chunk) => `${header}${chunk.trim()}`);
+}
+
+/** Split `markdown` and keep chunks in page order while their estimated tokens fit `tokenBudget` (always at least one) */
+export function planChunks(markdown: string, maxChars: number, tokenBudget: number): ChunkPlan {
+    const all = splitMarkdown(markdown, maxChars);
+    const chunks: string[] = [];
+    let spent = 0;
+
+    for (const chunk of all) {
+        const cost = estimateTokens(chunk) + CALL_OVERHEAD_TOKENS;
+        if (chunks.length > 0 && spent + cost > tokenBudget) break;
+        chunks.push(chunk);
+        spent += cost;
+    }
+
+    return { chunks, dropped: all.length - chunks.length };
+}
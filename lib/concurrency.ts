@@ -0,0 +1,22 @@
+// lib/concurrency.ts
+// Bounded-concurrency helpers.
+//
+// Cron jobs, WebSub and webhook deliveries, article fetches, and chunk
+// extraction all fan out over a list while keeping a cap on requests in
+// flight, so they don't trip rate limits or exhaust the function's sockets.
+
+/** Run `fn` over `items` with at most `limit` in flight; results keep input order */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index]);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
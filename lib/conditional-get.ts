@@ -0,0 +1,69 @@
+// lib/conditional-get.ts
+// HTTP conditional GET support for the feed endpoints.
+//
+// Feed readers poll every few minutes. Serving an ETag (hash of the exact
+// body) and Last-Modified (when the newest article was first seen) lets them
+// send If-None-Match / If-Modified-Since and receive an empty 304 when
+// nothing changed. Bodies are only byte-stable because the builders take
+// `lastBuildDate` from the feed data instead of the current time.
+
+import { createHash } from "crypto";
+
+/** Strong ETag for a serialized feed body */
+export function computeETag(body: string): string {
+    return `"${createHash("sha256").update(body).digest("hex").slice(0, 32)}"`;
+}
+
+/** ETag comparison per RFC 9110 §13.1.2: If-None-Match uses weak comparison */
+function matchesETag(ifNoneMatch: string, etag: string): boolean {
+    const strip = (tag: string) => tag.trim().replace(/^W\//, "");
+    if (ifNoneMatch.trim() === "*") return true;
+    return ifNoneMatch.split(",").some((candidate) => strip(candidate) === strip(etag));
+}
+
+/**
+ * Whether the client's cached copy is still current. If-None-Match takes
+ * precedence; If-Modified-Since is only consulted when it is absent.
+ */
+export function isNotModified(request: Request, etag: string, lastModified?: string): boolean {
+    const ifNoneMatch = request.headers.get("if-none-match");
+    if (ifNoneMatch) {
+        return matchesETag(ifNoneMatch, etag);
+    }
+
+    const ifModifiedSince = request.headers.get("if-modified-since");
+    if (ifModifiedSince && lastModified) {
+        const since = Date.parse(ifModifiedSince);
+        const modified = Date.parse(lastModified);
+        // HTTP dates have second precision
+        return !isNaN(since) && !isNaN(modified) && Math.floor(modified / 1000) <= Math.floor(since / 1000);
+    }
+
+    return false;
+}
+
+/**
+ * Return the feed body with ETag/Last-Modified, or a bodyless 304 when the
+ * request's validators match. The 304 keeps every other header except Content-Type.
+ */
+export function conditionalResponse(
+    request: Request,
+    body: string,
+    headers: Record<string, string>,
+    lastModified?: string
+): Response {
+    const etag = computeETag(body);
+    const validators: Record<string, string> = { "ETag": etag };
+    if (lastModified && !isNaN(Date.parse(lastModified))) {
+        validators["Last-Modified"] = new Date(lastModified).toUTCString();
+    }
+
+    if (isNotModified(request, etag, validators["Last-Modified"])) {
+        const notModifiedHeaders = Object.fromEntries(
+            Object.entries(headers).filter(([name]) => name.toLowerCase() !== "content-type")
+        );
+        return new Response(null, { status: 304, headers: { ...notModifiedHeaders, ...validators } });
+    }
+
+    return new Response(body, { headers: { ...headers, ...validators } });
+}
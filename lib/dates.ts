@@ -0,0 +1,314 @@
+// lib/dates.ts
+// Date normalization for extracted pubDates.
+//
+// The prompt asks for RFC 822, but models copy whatever the page shows: ISO
+// timestamps, "3 days ago", "2024年12月27日", "27/12/2024", "27. Dezember 2024".
+// `normalizeDate` turns those into RFC 822 using the fetch time for relative
+// dates, a day-first hint for ambiguous numeric dates (inferred from the other
+// dates on the page, then the site's TLD), and UTC for dates without a zone.
+// Dates slightly in the future are clamped to now; far-future and implausibly
+// old dates are rejected, and `stabiliseDates` records why it fell back.
+
+// --- Types ---
+
+export type DateFallback =
+    | "missing"       // no date extracted
+    | "unparseable"   // a value we could not read
+    | "future"        // clamped to now, or rejected when far ahead
+    | "implausible";  // before MIN_PLAUSIBLE_YEAR
+
+export interface DateHints {
+    now?: Date;          // reference for relative dates and clamping (default: now)
+    dayFirst?: boolean;  // how to read 03/04/2024 (default: month first; dotted 03.04.2024 reads day first)
+}
+
+export interface NormalizedDate {
+    pubDate: string | null;    // RFC 822, or null when the value was rejected
+    fallback?: DateFallback;   // set when the value could not be used as-is
+}
+
+// --- Settings ---
+
+export const NO_DATE = "NO_DATE_FOUND";
+
+// Up to this far ahead is treated as time zone confusion and clamped to now
+const FUTURE_TOLERANCE_MS = 48 * 60 * 60 * 1000;
+const MIN_PLAUSIBLE_YEAR = 1995;
+
+const MONTH_NAMES: string[][] = [
+    ["january", "jan", "janvier", "janv", "januar", "janner", "enero", "ene", "gennaio", "gen", "janeiro", "januari"],
+    ["february", "feb", "fevrier", "fevr", "fev", "februar", "febrero", "febbraio", "fevereiro", "februari"],
+    ["march", "mar", "mars", "marz", "mrz", "marzo", "marco", "maart", "mrt"],
+    ["april", "apr", "avril", "avr", "abril", "abr", "aprile"],
+    ["may", "mai", "mayo", "maggio", "mag", "maio", "mei"],
+    ["june", "jun", "juin", "juni", "junio", "giugno", "giu", "junho"],
+    ["july", "jul", "juillet", "juil", "juli", "julio", "luglio", "lug", "julho"],
+    ["august", "aug", "aout", "agosto", "augustus"],
+    ["september", "sep", "sept", "septembre", "septiembre", "setiembre", "settembre", "set", "setembro"],
+    ["october", "oct", "octobre", "oktober", "okt", "octubre", "ottobre", "ott", "outubro"],
+    ["november", "nov", "novembre", "noviembre", "novembro"],
+    ["december", "dec", "decembre", "dezember", "dez", "diciembre", "dic", "dicembre", "dezembro"],
+];
+
+const MONTHS = new Map<string, number>(
+    MONTH_NAMES.flatMap((names, month) => names.map((name): [string, number] => [name, month]))
+);
+
+type RelativeUnit = "second" | "minute" | "hour" | "day" | "week" | "month" | "year";
+
+const UNIT_WORDS: Record<RelativeUnit, string[]> = {
+    second: ["s", "sec", "secs", "second", "seconds", "sekunde", "sekunden", "seconde", "secondes", "segundo", "segundos", "秒"],
+    minute: ["m", "min", "mins", "minute", "minutes", "minuten", "minuto", "minutos", "分", "分钟", "分鐘"],
+    hour: ["h", "hr", "hrs", "hour", "hours", "stunde", "stunden", "heure", "heures", "hora", "horas", "小时", "小時", "時間"],
+    day: ["d", "day", "days", "tag", "tagen", "jour", "jours", "dia", "dias", "天", "日"],
+    week: ["w", "wk", "wks", "week", "weeks", "woche", "wochen", "semaine", "semaines", "semana", "semanas", "周", "週", "星期"],
+    month: ["mo", "mos", "month", "months", "monat", "monaten", "mois", "mes", "meses", "个月", "個月", "ヶ月", "か月", "月"],
+    year: ["y", "yr", "yrs", "year", "years", "jahr", "jahren", "an", "ans", "annee", "annees", "ano", "anos", "年"],
+};
+
+const UNITS = new Map<string, RelativeUnit>(
+    (Object.keys(UNIT_WORDS) as RelativeUnit[]).flatMap((unit) =>
+        UNIT_WORDS[unit].map((word): [string, RelativeUnit] => [word, unit])
+    )
+);
+
+const UNIT_MS: Record<Exclude<RelativeUnit, "month" | "year">, number> = {
+    second: 1000,
+    minute: 60 * 1000,
+    hour: 60 * 60 * 1000,
+    day: 24 * 60 * 60 * 1000,
+    week: 7 * 24 * 60 * 60 * 1000,
+};
+
+// "N <unit> ago" in English, German, French, Spanish, Chinese and Japanese, anywhere
+// in the text ("Updated 2 days ago"); tried after the absolute formats
+const RELATIVE_PATTERNS = [
+    /(?:^|\s)(?:about |over |almost |nearly )?(\d+|an?|one)\s*([a-z]+)\.?\s+ago\b/,
+    /(?:^|\s)vor\s+(\d+|einem|einer)\s+([a-z]+)\b/,
+    /(?:^|\s)il y a\s+(\d+|une?)\s+([a-z]+)\b/,
+    /(?:^|\s)hace\s+(\d+|una?)\s+([a-z]+)\b/,
+    /(?:^|\D)(\d+)\s*(\S+?)\s*前/,
+];
+
+const NOW_WORDS = new Set(["now", "just now", "today", "刚刚", "今天", "今日", "heute", "gerade eben", "aujourd'hui", "a l'instant", "hoy", "oggi"]);
+const YESTERDAY_WORDS = new Set(["yesterday", "昨天", "昨日", "gestern", "hier", "ayer", "ieri"]);
+
+// Words that may sit between a day and its month name: "27 de diciembre", "5th of March", "1er mars"
+const DAY_FILLERS = new Set(["de", "del", "of", "the", "st", "nd", "rd", "th", "er"]);
+
+// Country TLDs whose sites write month first; other two-letter TLDs default to day first
+const MONTH_FIRST_TLDS = new Set(["us", "ph", "fm", "pw", "mh", "ca"]);
+
+// --- Hints ---
+
+function numericParts(value: string): [number, number] | null {
+    const match = value.trim().match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})\b/);
+    return match ? [Number(match[1]), Number(match[2])] : null;
+}
+
+/**
+ * Whether ambiguous numeric dates on a page are day-first. Any unambiguous
+ * date on the same page decides (27/12/2024 → yes, 12/27/2024 → no); otherwise
+ * the TLD of `pageUrl` does, with generic TLDs like .com reading month first.
+ */
+export function inferDayFirst(values: string[], pageUrl?: string): boolean {
+    for (const value of values) {
+        const parts = numericParts(value);
+        if (!parts) continue;
+        if (parts[0] > 12 && parts[1] <= 12) return true;
+        if (parts[1] > 12 && parts[0] <= 12) return false;
+    }
+
+    try {
+        const tld = new URL(pageUrl ?? "").hostname.split(".").pop() ?? "";
+        return tld.length === 2 && !MONTH_FIRST_TLDS.has(tld);
+    } catch {
+        return false;
+    }
+}
+
+// --- Parsing ---
+
+function simplify(value: string): string {
+    return value
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .normalize("NFC")   // recompose Hangul
+        .toLowerCase()
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+function utcDate(year: number, month: number, day: number, hour = 0, minute = 0, second = 0): Date | null {
+    if (month < 0 || month > 11 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) return null;
+    const date = new Date(Date.UTC(year, month, day, hour, minute, second));
+    // Reject rollovers such as 31 February
+    return date.getUTCDate() === day ? date : null;
+}
+
+function fullYear(year: number): number {
+    return year < 100 ? 2000 + year : year;
+}
+
+function parseRelative(text: string, now: Date): Date | null {
+    if (NOW_WORDS.has(text)) return new Date(now);
+    if (YESTERDAY_WORDS.has(text)) return new Date(now.getTime() - UNIT_MS.day);
+
+    for (const pattern of RELATIVE_PATTERNS) {
+        const match = text.match(pattern);
+        const unit = match ? UNITS.get(match[2]) : undefined;
+        if (!match || !unit) continue;
+
+        const amount = /^\d+$/.test(match[1]) ? Number(match[1]) : 1;
+        const date = new Date(now);
+        if (unit === "month") date.setUTCMonth(date.getUTCMonth() - amount);
+        else if (unit === "year") date.setUTCFullYear(date.getUTCFullYear() - amount);
+        else date.setTime(date.getTime() - amount * UNIT_MS[unit]);
+        return date;
+    }
+    return null;
+}
+
+/** 2024-12-27, 2024/12/27 10:00, 2024-12-27T10:00:00+08:00 — zone-less means UTC */
+function parseYearFirst(text: string): Date | null {
+    const match = text.match(
+        /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[t ](\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?\s*(z|utc|gmt|[+-]\d{2}:?\d{2})?$/
+    );
+    if (!match) return null;
+
+    const [, year, month, day, hour = "0", minute = "0", second = "0", zone] = match;
+    const date = utcDate(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+    if (!date || !zone || zone === "z" || zone === "utc" || zone === "gmt") return date;
+
+    const offset = zone.match(/([+-])(\d{2}):?(\d{2})/)!;
+    const minutes = (Number(offset[2]) * 60 + Number(offset[3])) * (offset[1] === "+" ? 1 : -1);
+    return new Date(date.getTime() - minutes * 60 * 1000);
+}
+
+/** 2024年12月27日 (Chinese, Japanese) and 2024년 12월 27일 (Korean), optionally with a time */
+function parseCJK(text: string): Date | null {
+    const match = text.match(/(\d{4})\s*[年년]\s*(\d{1,2})\s*[月월]\s*(\d{1,2})\s*[日일]?(?:\s*(\d{1,2})[:：时時](\d{2}))?/);
+    if (!match) return null;
+    const [, year, month, day, hour = "0", minute = "0"] = match;
+    return utcDate(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute));
+}
+
+/**
+ * 27/12/2024, 12.27.24, 03-04-2024 10:30 — order from the values themselves,
+ * else day first for dotted dates (12.03.2024 is written day first almost
+ * everywhere), else `dayFirst`
+ */
+function parseNumeric(text: string, dayFirst: boolean): Date | null {
+    const match = text.match(/^(\d{1,2})([/.-])(\d{1,2})[/.-](\d{4}|\d{2})(?:,?\s+(\d{1,2}):(\d{2}))?/);
+    if (!match) return null;
+
+    const first = Number(match[1]);
+    const second = Number(match[3]);
+    const readDayFirst = first > 12 ? true : second > 12 ? false : match[2] === "." || dayFirst;
+    const [day, month] = readDayFirst ? [first, second] : [second, first];
+    return utcDate(fullYear(Number(match[4])), month - 1, day, Number(match[5] ?? 0), Number(match[6] ?? 0));
+}
+
+/** The 1-2 digit number next to the month name (fillers skipped), looking before it first */
+function dayNextToMonth(words: string[], monthIndex: number): number | null {
+    for (const step of [-1, 1]) {
+        let index = monthIndex + step;
+        while (DAY_FILLERS.has(words[index] ?? "")) index += step;
+        if (/^\d{1,2}$/.test(words[index] ?? "")) return Number(words[index]);
+    }
+    return null;
+}
+
+/**
+ * "27 December 2024", "Dec 27, 2024 3:15 pm", "27. Dezember 2024",
+ * "27 de diciembre de 2024". Without a year, the most recent such date
+ * up to `now` is assumed.
+ */
+function parseMonthName(text: string, now: Date): Date | null {
+    const time = text.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]\.?m\.?)?/);
+    const rest = time ? text.replace(time[0], " ") : text;
+
+    const words = rest.match(/[a-z]+|\d+/g) ?? [];
+    const monthIndex = words.findIndex((word) => MONTHS.has(word));
+    if (monthIndex === -1) return null;
+    const month = MONTHS.get(words[monthIndex])!;
+
+    // The day is the number next to the month, not the first one in the text ("1 min read · Mar 5, 2024")
+    const day = dayNextToMonth(words, monthIndex);
+    if (day === null) return null;
+    const yearWord = words.find((word) => /^\d{4}$/.test(word));
+
+    let hour = time ? Number(time[1]) : 0;
+    const minute = time ? Number(time[2]) : 0;
+    const meridiem = time?.[4]?.[0];
+    if (meridiem === "p" && hour < 12) hour += 12;
+    if (meridiem === "a" && hour === 12) hour = 0;
+
+    if (yearWord) return utcDate(Number(yearWord), month, day, hour, minute);
+
+    const thisYear = utcDate(now.getUTCFullYear(), month, day, hour, minute);
+    if (thisYear && thisYear.getTime() <= now.getTime() + FUTURE_TOLERANCE_MS) return thisYear;
+    return utcDate(now.getUTCFullYear() - 1, month, day, hour, minute);
+}
+
+/** Values with an explicit zone (RFC 822, ISO with offset) are safe to hand to Date.parse */
+function parseWithZone(value: string): Date | null {
+    if (!/(?:\b(?:gmt|utc|[ecmp][sd]t)\b|z$|[+-]\d{2}:?\d{2}$)/i.test(value)) return null;
+    const time = Date.parse(value);
+    return isNaN(time) ? null : new Date(time);
+}
+
+function parseDate(value: string, now: Date, dayFirst: boolean): Date | null {
+    const text = simplify(value);
+    // Relative phrases last: "Mar 5, 2024 (2 years ago)" keeps its exact date
+    return parseYearFirst(text)
+        ?? parseWithZone(value.trim())
+        ?? parseCJK(text)
+        ?? parseNumeric(text, dayFirst)
+        ?? parseMonthName(text, now)
+        ?? parseRelative(text, now);
+}
+
+// --- Normalization ---
+
+/**
+ * Normalize an extracted date to RFC 822. Returns `pubDate: null` with a
+ * `fallback` reason when the value is missing, unreadable, far in the future,
+ * or older than MIN_PLAUSIBLE_YEAR; a date up to FUTURE_TOLERANCE_MS ahead is
+ * clamped to `now` and reported as a "future" fallback.
+ */
+export function normalizeDate(value: string | undefined, hints: DateHints = {}): NormalizedDate {
+    const now = hints.now ?? new Date();
+    if (!value?.trim() || value.trim() === NO_DATE) {
+        return { pubDate: null, fallback: "missing" };
+    }
+
+    const date = parseDate(value, now, hints.dayFirst ?? false);
+    if (!date) {
+        return { pubDate: null, fallback: "unparseable" };
+    }
+
+    const time = date.getTime();
+    if (time > now.getTime() + FUTURE_TOLERANCE_MS) {
+        return { pubDate: null, fallback: "future" };
+    }
+    if (time > now.getTime()) {
+        return { pubDate: now.toUTCString(), fallback: "future" };
+    }
+    if (date.getUTCFullYear() < MIN_PLAUSIBLE_YEAR) {
+        return { pubDate: null, fallback: "implausible" };
+    }
+
+    return { pubDate: date.toUTCString() };
+}
+
+/**
+ * RFC 822 for a machine-readable date (feed <pubDate>, JSON-LD datePublished,
+ * <time datetime>), read with Date.parse only; NO_DATE when it can't be read.
+ * Free-text dates from the LLM go through `normalizeDate` instead.
+ */
+export function toRFC822(value: string): string {
+    if (!value) return NO_DATE;
+    const time = Date.parse(value);
+    return isNaN(time) ? NO_DATE : new Date(time).toUTCString();
+}
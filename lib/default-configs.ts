@@ -1,6 +1,6 @@
-import { type SiteSelectors } from "@/lib/site-selectors";
+import { type SiteConfigEntry } from "@/lib/storage";
 
-export const DEFAULT_SITE_CONFIGS: Record<string, SiteSelectors> = {
+export const DEFAULT_SITE_CONFIGS: Record<string, SiteConfigEntry> = {
     "medium.com": {
         targetSelector: "article",
         removeSelector: "header, footer, nav, .metabar, .postActions",
@@ -0,0 +1,125 @@
+// lib/extraction-config.ts
+// Per-site LLM extraction instructions and extra item fields.
+//
+// buildSystemPrompt used to be the same for every site, so a page whose
+// sidebar lists "popular posts" or press releases got them extracted as
+// articles on every run. A domain's site config can now carry free-text
+// `instructions` ("only items under the 'Research' heading"), appended to the
+// system prompt, and `extraFields` the model should also extract for each
+// item. Extra fields come from a fixed set so each one has a prompt line, a
+// normaliser, and a place in RSS, Atom, and JSON Feed (see lib/xml-builder).
+
+import { type RSSItem } from "@/lib/xml-builder";
+import { absoluteUrl, isHttpUrl } from "@/lib/url";
+
+// --- Types ---
+
+export type ExtraField = "author" | "image" | "readingTime";
+
+// The per-site part of an extraction; part of the LLM cache key and the fingerprint match
+export interface SiteExtraction {
+    instructions?: string;
+    extraFields?: ExtraField[];
+}
+
+// --- Settings ---
+
+export const MAX_INSTRUCTIONS_CHARS = 2000;
+
+export const EXTRA_FIELDS: Record<ExtraField, { label: string; prompt: string }> = {
+    author: {
+        label: "Author",
+        prompt: `"author": Author name(s) as shown on the page (omit if not shown)`,
+    },
+    image: {
+        label: "Image",
+        prompt: `"image": Absolute URL of the article's thumbnail or lead image (omit if none)`,
+    },
+    readingTime: {
+        label: "Reading Time",
+        prompt: `"readingTime": Reading time in whole minutes as a number, only if the page states it`,
+    },
+};
+
+export function isExtraField(value: unknown): value is ExtraField {
+    return typeof value === "string" && Object.hasOwn(EXTRA_FIELDS, value);
+}
+
+// --- Validation ---
+
+/** Problems with a site config's `instructions` / `extraFields` (prefixed with `path`); empty when valid */
+export function validateSiteExtraction(instructions: unknown, extraFields: unknown, path: string): string[] {
+    const errors: string[] = [];
+
+    if (instructions !== undefined) {
+        if (typeof instructions !== "string" || !instructions.trim()) {
+            errors.push(`${path}.instructions: must be a non-empty string`);
+        } else if (instructions.length > MAX_INSTRUCTIONS_CHARS) {
+            errors.push(`${path}.instructions: must be at most ${MAX_INSTRUCTIONS_CHARS} characters`);
+        }
+    }
+
+    if (extraFields !== undefined) {
+        if (!Array.isArray(extraFields)) {
+            errors.push(`${path}.extraFields: must be an array of field names`);
+        } else {
+            for (const field of extraFields) {
+                if (!isExtraField(field)) {
+                    errors.push(`${path}.extraFields: unknown field "${String(field)}" (known: ${Object.keys(EXTRA_FIELDS).join(", ")})`);
+                }
+            }
+        }
+    }
+
+    return errors;
+}
+
+// --- Prompt ---
+
+/** The extraction options a site config asks for, with unknown and duplicate fields dropped */
+export function siteExtraction(config: { instructions?: string; extraFields?: string[] }): SiteExtraction {
+    const instructions = config.instructions?.trim().slice(0, MAX_INSTRUCTIONS_CHARS);
+    const extraFields = Array.from(new Set((config.extraFields ?? []).filter(isExtraField)));
+    return {
+        ...(instructions ? { instructions } : {}),
+        ...(extraFields.length > 0 ? { extraFields } : {}),
+    };
+}
+
+/** Item schema lines for the requested extra fields, indented to sit in the prompt's item object */
+export function extraFieldPromptLines(fields: ExtraField[] = []): string {
+    return fields.map((field) => `      ${EXTRA_FIELDS[field].prompt}`).join(",\n");
+}
+
+// --- Normalisation ---
+
+/** Minutes from 7, "7", or "7 min read"; undefined for anything else */
+function parseMinutes(value: unknown): number | undefined {
+    const minutes = typeof value === "number" ? value : parseFloat(String(value ?? "").replace(/^[^\d]*/, ""));
+    return Number.isFinite(minutes) && minutes > 0 && minutes < 1000 ? Math.round(minutes) : undefined;
+}
+
+/**
+ * The requested extra fields of one extracted item, cleaned up: author
+ * trimmed, image resolved to an absolute http(s) URL, reading time as whole
+ * minutes. Fields that are missing or unusable are left out.
+ */
+export function normaliseExtraFields(
+    record: Record<string, unknown>,
+    pageUrl: string,
+    fields: ExtraField[] = []
+): Pick<RSSItem, ExtraField> {
+    const extra: Pick<RSSItem, ExtraField> = {};
+    for (const field of fields) {
+        const value = record[field];
+        if (field === "author" && typeof value === "string" && value.trim()) {
+            extra.author = value.trim();
+        } else if (field === "image" && typeof value === "string" && value.trim()) {
+            const image = absoluteUrl(value, pageUrl);
+            extra.image = image && isHttpUrl(image) ? image : undefined;
+        } else if (field === "readingTime") {
+            extra.readingTime = parseMinutes(value);
+        }
+    }
+    return Object.fromEntries(Object.entries(extra).filter(([, value]) => value !== undefined));
+}
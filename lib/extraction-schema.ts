@@ -0,0 +1,151 @@
+// lib/extraction-schema.ts
+// Schema validation of the LLM's extraction JSON.
+//
+// generateFeedData used to check only that `channel.title` existed and
+// `items` was an array, so one malformed item or a stray code fence failed the
+// whole extraction and moved on to the next model (usually there isn't one).
+// Here the output is checked field by field with precise paths
+// ("items[3].link: must be an absolute http(s) URL"). Problems with the
+// document itself make it unusable; an item with a problem is rejected on its
+// own, and the rest of the items are kept. The errors double as the message of
+// the route's one "repair" turn.
+
+import { type RSSChannel } from "@/lib/xml-builder";
+import { isHttpUrl } from "@/lib/url";
+
+// --- Types ---
+
+export interface ExtractionValidation {
+    channel: RSSChannel | null;          // null when the document is unusable
+    items: Record<string, unknown>[];    // items that passed, in output order (normaliseItems finishes them)
+    total: number;                       // items in the output, valid or not
+    rejected: number;                    // items dropped for schema errors
+    errors: string[];                    // every problem, prefixed with its path ("$" is the whole document)
+}
+
+// --- Settings ---
+
+const ITEM_STRING_FIELDS = ["guid", "description", "pubDate", "content", "author", "image"] as const;
+
+// --- Validation ---
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === "string" && value.trim().length > 0;
+}
+
+function validateChannel(value: unknown, pageUrl: string, errors: string[]): RSSChannel | null {
+    if (!isObject(value)) {
+        errors.push("channel: must be an object");
+        return null;
+    }
+
+    const before = errors.length;
+    if (!isNonEmptyString(value.title)) {
+        errors.push("channel.title: must be a non-empty string");
+    }
+    for (const field of ["link", "description"] as const) {
+        if (value[field] !== undefined && value[field] !== null && typeof value[field] !== "string") {
+            errors.push(`channel.${field}: must be a string`);
+        }
+    }
+    if (errors.length > before) return null;
+
+    const title = (value.title as string).trim();
+    const link = typeof value.link === "string" && isHttpUrl(value.link) ? value.link.trim() : pageUrl;
+    const description = typeof value.description === "string" && value.description.trim() ? value.description.trim() : title;
+    return { title, link, description };
+}
+
+/** Problems with one item (prefixed with `path`); empty when it can be used */
+function validateItem(value: unknown, path: string): string[] {
+    if (!isObject(value)) return [`${path}: must be an object`];
+
+    const errors: string[] = [];
+    if (!isNonEmptyString(value.title)) {
+        errors.push(`${path}.title: must be a non-empty string`);
+    }
+    if (!isNonEmptyString(value.link)) {
+        errors.push(`${path}.link: must be a non-empty string`);
+    } else if (!isHttpUrl(value.link)) {
+        errors.push(`${path}.link: must be an absolute http(s) URL, got "${value.link.slice(0, 100)}"`);
+    }
+    for (const field of ITEM_STRING_FIELDS) {
+        if (value[field] !== undefined && value[field] !== null && typeof value[field] !== "string") {
+            errors.push(`${path}.${field}: must be a string`);
+        }
+    }
+    if (value.categories !== undefined && value.categories !== null
+        && (!Array.isArray(value.categories) || value.categories.some((category) => typeof category !== "string"))) {
+        errors.push(`${path}.categories: must be an array of strings`);
+    }
+    if (value.readingTime !== undefined && value.readingTime !== null
+        && typeof value.readingTime !== "number" && typeof value.readingTime !== "string") {
+        errors.push(`${path}.readingTime: must be a number of minutes`);
+    }
+    return errors;
+}
+
+/**
+ * Validate parsed extraction JSON. The document must be an object with a
+ * `channel` (non-empty `title`) and an `items` array; a missing channel link or
+ * description defaults to `pageUrl` / the title. Each item needs a non-empty
+ * `title` and an absolute http(s) `link`; optional fields must have the right
+ * type (null counts as absent). Invalid items are rejected individually, and
+ * unknown fields are ignored.
+ */
+export function validateExtraction(value: unknown, pageUrl: string): ExtractionValidation {
+    const errors: string[] = [];
+    const result: ExtractionValidation = { channel: null, items: [], total: 0, rejected: 0, errors };
+
+    if (!isObject(value)) {
+        errors.push("$: must be a JSON object with \"channel\" and \"items\"");
+        return result;
+    }
+
+    result.channel = validateChannel(value.channel, pageUrl, errors);
+
+    if (!Array.isArray(value.items)) {
+        errors.push("items: must be an array");
+        result.channel = null;
+        return result;
+    }
+
+    result.total = value.items.length;
+    value.items.forEach((item, index) => {
+        const itemErrors = validateItem(item, `items[${index}]`);
+        if (itemErrors.length > 0) {
+            errors.push(...itemErrors);
+            result.rejected++;
+        } else {
+            result.items.push(item as Record<string, unknown>);
+        }
+    });
+    if (result.total === 0) errors.push("items: must contain at least one article");
+
+    return result;
+}
+
+/** Parse raw model output (code fences tolerated) and validate it; unparseable output is a `$` error */
+export function parseExtraction(raw: string, pageUrl: string): ExtractionValidation {
+    const cleaned = raw.replace(/```(?:json)?\s*/g, "").replace(/```/g, "").trim();
+    try {
+        return validateExtraction(JSON.parse(cleaned), pageUrl);
+    } catch (error) {
+        return {
+            channel: null,
+            items: [],
+            total: 0,
+            rejected: 0,
+            errors: [`$: not valid JSON (${error instanceof Error ? error.message : String(error)})`],
+        };
+    }
+}
+
+/** True when the result can be served: a valid channel and at least one valid item */
+export function isUsableExtraction(result: ExtractionValidation): result is ExtractionValidation & { channel: RSSChannel } {
+    return result.channel !== null && result.items.length > 0;
+}
@@ -0,0 +1,165 @@
+// lib/feeds.ts
+// Saved feed definitions.
+//
+// A saved feed stores the target URL plus the /api/rss query parameters the
+// Link Generator would otherwise put in a long URL. It is served at
+// /api/feeds/<id>/rss; the id never changes, so selectors, source or format
+// can be edited later without breaking anyone's subscription.
+
+import { randomBytes } from "crypto";
+import { type FeedDefinition } from "@/lib/storage";
+import { isHttpUrl } from "@/lib/url";
+import { validateLLMChain } from "@/lib/llm-providers";
+
+// --- Types ---
+
+export interface FeedDefinitionInput {
+    name: string;
+    url: string;
+    params: Record<string, string>;
+    refreshIntervalMinutes?: number | null;   // null clears the override on update
+}
+
+/** /api/rss parameters a saved feed may pin (`url` is stored separately, `refresh` is per request) */
+export const FEED_PARAM_NAMES = [
+    "target",
+    "remove",
+    "waitfor",
+    "source",
+    "markdownMethod",
+    "native",
+    "structured",
+    "format",
+    "limit",
+    "fulltext",
+    "archive",
+    "archiveLimit",
+    "chunked",
+    "pages",
+    "llm",
+] as const;
+
+/**
+ * Set on this app's own /api/rss calls (merge, scheduled refresh, WebSub
+ * distribution) so they don't count as a reader requesting the feed
+ */
+export const INTERNAL_REQUEST_HEADER = "x-rss-genai-internal";
+
+const FEED_ID_PATTERN = /^[a-z0-9][a-z0-9-]{2,63}$/;
+
+const MIN_REFRESH_INTERVAL_MINUTES = 5;
+const MAX_REFRESH_INTERVAL_MINUTES = 7 * 24 * 60;
+
+// --- Ids ---
+
+/** Short random id, e.g. "3f9a0c71b2de" */
+export function generateFeedId(): string {
+    return randomBytes(6).toString("hex");
+}
+
+/** Custom ids: 3-64 chars of lowercase letters, digits and dashes */
+export function isValidFeedId(id: string): boolean {
+    return FEED_ID_PATTERN.test(id);
+}
+
+// --- Validation ---
+
+/**
+ * Validate a create (`partial=false`) or update (`partial=true`) body.
+ * Param values may be strings, numbers or booleans and are stored as strings;
+ * empty values are dropped.
+ */
+export function validateFeedInput(
+    body: unknown,
+    partial = false
+): { input: Partial<FeedDefinitionInput>; errors: string[] } {
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+        return { input: {}, errors: ["Body must be a JSON object"] };
+    }
+
+    const record = body as Record<string, unknown>;
+    const input: Partial<FeedDefinitionInput> = {};
+    const errors: string[] = [];
+
+    if (record.name !== undefined || !partial) {
+        if (typeof record.name !== "string" || !record.name.trim()) {
+            errors.push("name: is required");
+        } else if (record.name.length > 200) {
+            errors.push("name: must be at most 200 characters");
+        } else {
+            input.name = record.name.trim();
+        }
+    }
+
+    if (record.url !== undefined || !partial) {
+        if (typeof record.url !== "string" || !isHttpUrl(record.url.trim())) {
+            errors.push("url: must be an http(s) URL");
+        } else {
+            input.url = record.url.trim();
+        }
+    }
+
+    if (record.params !== undefined) {
+        if (!record.params || typeof record.params !== "object" || Array.isArray(record.params)) {
+            errors.push("params: must be an object");
+        } else {
+            const params: Record<string, string> = {};
+            for (const [key, value] of Object.entries(record.params as Record<string, unknown>)) {
+                if (!(FEED_PARAM_NAMES as readonly string[]).includes(key)) {
+                    errors.push(`params.${key}: unknown parameter`);
+                } else if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+                    const text = String(value).trim();
+                    if (text) params[key] = text;
+                } else if (value !== null && value !== undefined) {
+                    errors.push(`params.${key}: must be a string, number or boolean`);
+                }
+            }
+            if (params.llm) {
+                errors.push(...validateLLMChain(params.llm.split(","), "params.llm"));
+            }
+            input.params = params;
+        }
+    } else if (!partial) {
+        input.params = {};
+    }
+
+    if (record.refreshIntervalMinutes === null) {
+        input.refreshIntervalMinutes = null;
+    } else if (record.refreshIntervalMinutes !== undefined) {
+        const minutes = record.refreshIntervalMinutes;
+        if (
+            typeof minutes !== "number" || !Number.isInteger(minutes) ||
+            minutes < MIN_REFRESH_INTERVAL_MINUTES || minutes > MAX_REFRESH_INTERVAL_MINUTES
+        ) {
+            errors.push(
+                `refreshIntervalMinutes: must be an integer between ${MIN_REFRESH_INTERVAL_MINUTES} and ${MAX_REFRESH_INTERVAL_MINUTES}`
+            );
+        } else {
+            input.refreshIntervalMinutes = minutes;
+        }
+    }
+
+    return { input, errors };
+}
+
+// --- Serving ---
+
+/** Query string for the internal /api/rss call behind /api/feeds/<id>/rss */
+export function feedQueryParams(feed: FeedDefinition): URLSearchParams {
+    const params = new URLSearchParams({ url: feed.url });
+    for (const name of FEED_PARAM_NAMES) {
+        const value = feed.params[name];
+        if (value) params.set(name, value);
+    }
+    return params;
+}
+
+/**
+ * True when `query` asks /api/rss for exactly what the saved feed serves (same
+ * `url` and the same value, or absence, of every FEED_PARAM_NAMES entry), so a
+ * `feedId` can't lend the feed's pinned settings to another page or other options
+ */
+export function matchesFeedQuery(feed: FeedDefinition, query: URLSearchParams): boolean {
+    const expected = feedQueryParams(feed);
+    return ["url", ...FEED_PARAM_NAMES].every((name) => (query.get(name) ?? "") === (expected.get(name) ?? ""));
+}
@@ -0,0 +1,257 @@
+// lib/fulltext.ts
+// Second extraction stage for fulltext=true: fetch every article page.
+//
+// Index pages rarely contain whole articles, so asking the LLM to copy "the
+// FULL article text" from the listing produced longer summaries at best. Here
+// each item's link is fetched through the markdown provider chain (a few at a
+// time), the main body is cut out of the page markdown deterministically, and
+// the result is stored by article URL so no article is ever fetched twice.
+
+import {
+    fetchWithProviderChain,
+    type MarkdownMethod,
+} from "@/lib/markdown-providers";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { loadArticleContent, saveArticleContent } from "@/lib/storage";
+import { type RSSItem } from "@/lib/xml-builder";
+import { isHttpUrl } from "@/lib/url";
+
+// --- Types ---
+
+export interface FullTextResult {
+    items: RSSItem[];
+    fetched: number;    // fetched from the article page in this request
+    cached: number;     // served from the article store
+    failed: number;     // fetch or extraction failed (now, or recently)
+    skipped: number;    // already had full content, or no usable link
+}
+
+type ArticleOutcome = "fetched" | "cached" | "failed" | "skipped";
+
+// --- Settings ---
+
+const ARTICLE_CONCURRENCY = 4;
+const ARTICLE_TIMEOUT_MS = 20_000;
+const FAILURE_RETRY_MS = 6 * 60 * 60 * 1000;
+const MAX_ARTICLE_CHARS = 100_000;
+
+// Items whose content is at least this long (e.g. a native feed's content:encoded) are left alone
+const FULL_CONTENT_MIN_CHARS = 2000;
+
+// Paragraphs with fewer words are not treated as article prose
+const PROSE_MIN_WORDS = 20;
+
+const JINA_PREAMBLE = /^(Title|URL Source|Published Time|Markdown Content|Warning):/;
+const BOILERPLATE = /^(share|follow us|subscribe|sign up|related|read more|comments?|leave a (comment|reply)|tags?:|posted in|filed under|copyright|©)/i;
+
+// --- Main body extraction ---
+
+interface Block {
+    text: string;
+    kind: "code" | "heading" | "list" | "quote" | "rule" | "paragraph";
+    words: number;
+    linkDensity: number;   // share of visible text that is link text
+}
+
+function splitBlocks(markdown: string): string[] {
+    const blocks: string[] = [];
+    let current: string[] = [];
+    let inFence = false;
+
+    for (const line of markdown.replace(/\r\n?/g, "\n").split("\n")) {
+        if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+        if (!inFence && !line.trim()) {
+            if (current.length > 0) blocks.push(current.join("\n"));
+            current = [];
+        } else {
+            current.push(line);
+        }
+    }
+    if (current.length > 0) blocks.push(current.join("\n"));
+    return blocks;
+}
+
+function classify(block: string): Block {
+    // Setext headings (Jina's default) become ATX so the renderer sees one form
+    const setext = block.match(/^([^\n]+)\n(=+|-+)\s*$/);
+    const text = setext ? `${setext[2][0] === "=" ? "#" : "##"} ${setext[1].trim()}` : block;
+
+    const visible = text
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1");
+    const linkText = Array.from(text.replace(/!\[[^\]]*\]\([^)]*\)/g, "").matchAll(/\[([^\]]*)\]\([^)]*\)/g))
+        .reduce((sum, match) => sum + match[1].length, 0);
+    const visibleChars = visible.replace(/\s+/g, "").length;
+
+    const kind: Block["kind"] = /^\s*(```|~~~)/.test(text) ? "code"
+        : /^#{1,6}\s/.test(text) ? "heading"
+        : /^\s*([-*_])(\s*\1){2,}\s*$/.test(text) ? "rule"
+        : /^\s*([-*+]|\d+[.)])\s/.test(text) ? "list"
+        : /^>/.test(text) ? "quote"
+        : "paragraph";
+
+    return {
+        text,
+        kind,
+        words: visible.split(/\s+/).filter(Boolean).length,
+        linkDensity: visibleChars > 0 ? linkText / visibleChars : 1,
+    };
+}
+
+function isBoilerplate(block: Block): boolean {
+    if (block.kind === "code" || block.kind === "rule") return false;
+    if (block.kind !== "heading" && block.linkDensity > 0.5) return true;
+    return block.words < 30 && BOILERPLATE.test(block.text.replace(/^[#>*\s-]+/, ""));
+}
+
+/**
+ * The article body from page markdown: the span from the first to the last
+ * prose paragraph (plus the short text blocks that close it, up to the first
+ * boilerplate), minus link lists and share/subscribe blocks inside it. Falls
+ * back to every non-boilerplate block when the page has no real prose.
+ */
+export function extractMainContent(markdown: string): string {
+    const blocks = splitBlocks(markdown)
+        .filter((text) => !JINA_PREAMBLE.test(text.trim()))
+        .map(classify);
+
+    const isText = (block: Block) => block.kind !== "heading" && block.kind !== "rule" && block.linkDensity < 0.3;
+    const isProse = (block: Block) => block.kind === "paragraph" && block.words >= PROSE_MIN_WORDS && isText(block);
+    const first = blocks.findIndex(isProse);
+    let last = blocks.findLastIndex(isProse);
+    while (last !== -1 && last + 1 < blocks.length && isText(blocks[last + 1]) && !isBoilerplate(blocks[last + 1])) {
+        last++;
+    }
+    const region = first === -1 ? blocks : blocks.slice(first, last + 1);
+
+    return region
+        .filter((block) => !isBoilerplate(block))
+        .map((block) => block.text)
+        .join("\n\n")
+        .slice(0, MAX_ARTICLE_CHARS)
+        .trim();
+}
+
+// --- Markdown → HTML (for content:encoded) ---
+
+function escapeHtml(value: string): string {
+    return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function renderInline(text: string): string {
+    // Finished markup is stashed so emphasis rules can't reach into URLs
+    const stash: string[] = [];
+    const keep = (html: string) => `\u0000${stash.push(html) - 1}\u0000`;
+    const safeUrl = (url: string) => /^(https?:|\/)/i.test(url) ? url : null;
+
+    return escapeHtml(text)
+        // Backslash escapes become entities so they are not read as markup below
+        .replace(/\\([\\`*_{}[\]()#+\-.!])/g, (_, char: string) => `&#${char.charCodeAt(0)};`)
+        .replace(/`([^`]+)`/g, (_, code: string) => keep(`<code>${code}</code>`))
+        .replace(/!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, (_, alt: string, src: string) =>
+            safeUrl(src) ? keep(`<img src="${src}" alt="${alt}">`) : alt)
+        .replace(/\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, (_, label: string, href: string) =>
+            safeUrl(href) ? `${keep(`<a href="${href}">`)}${label}${keep("</a>")}` : label)
+        .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, "<strong>$2</strong>")
+        .replace(/(^|[^\w*])([*_])(?=\S)([\s\S]*?\S)\2(?![\w*])/g, "$1<em>$3</em>")
+        .replace(/\u0000(\d+)\u0000/g, (_, index: string) => stash[Number(index)]);
+}
+
+function renderBlock(block: Block): string {
+    const lines = block.text.split("\n");
+    switch (block.kind) {
+        case "code":
+            return `<pre><code>${escapeHtml(lines.slice(1, lines.at(-1)?.match(/^\s*(```|~~~)/) ? -1 : undefined).join("\n"))}</code></pre>`;
+        case "heading": {
+            const [, hashes, title] = block.text.match(/^(#{1,6})\s+(.*)$/m)!;
+            return `<h${hashes.length}>${renderInline(title)}</h${hashes.length}>`;
+        }
+        case "list": {
+            const tag = /^\s*\d/.test(block.text) ? "ol" : "ul";
+            const items = block.text.split(/\n(?=\s*(?:[-*+]|\d+[.)])\s)/)
+                .map((item) => `<li>${renderInline(item.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, "").replace(/\s*\n\s*/g, " "))}</li>`);
+            return `<${tag}>${items.join("")}</${tag}>`;
+        }
+        case "quote":
+            return `<blockquote><p>${renderInline(lines.map((line) => line.replace(/^>\s?/, "")).join(" "))}</p></blockquote>`;
+        case "rule":
+            return "<hr>";
+        default:
+            return `<p>${renderInline(lines.join(" "))}</p>`;
+    }
+}
+
+export function markdownToHtml(markdown: string): string {
+    return splitBlocks(markdown).map(classify).map(renderBlock).join("\n");
+}
+
+// --- Article fetching ---
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`timed out after ${ms}ms`)), ms);
+        promise.then(resolve, reject).finally(() => clearTimeout(timer));
+    });
+}
+
+async function fullTextFor(
+    item: RSSItem,
+    chain: string[],
+    markdownMethod: MarkdownMethod
+): Promise<{ item: RSSItem; outcome: ArticleOutcome }> {
+    if ((item.content?.length ?? 0) >= FULL_CONTENT_MIN_CHARS || !isHttpUrl(item.link)) {
+        return { item, outcome: "skipped" };
+    }
+
+    const stored = await loadArticleContent(item.link);
+    if (stored?.content) {
+        return { item: { ...item, content: stored.content }, outcome: "cached" };
+    }
+    if (stored?.error && Date.now() - new Date(stored.fetchedAtISO).getTime() < FAILURE_RETRY_MS) {
+        return { item, outcome: "failed" };
+    }
+
+    const fetchedAtISO = new Date().toISOString();
+    try {
+        // Listing-page selectors don't apply to article pages
+        const page = await withTimeout(
+            fetchWithProviderChain(item.link, chain, { selectors: {}, markdownMethod }),
+            ARTICLE_TIMEOUT_MS
+        );
+        const body = extractMainContent(page.content);
+        if (!body) throw new Error("no main content found");
+
+        const content = markdownToHtml(body);
+        await saveArticleContent({ url: item.link, content, provider: page.provider, fetchedAtISO });
+        return { item: { ...item, content }, outcome: "fetched" };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`[FullText] ${item.link}: ${message}`);
+        await saveArticleContent({ url: item.link, error: message, fetchedAtISO });
+        return { item, outcome: "failed" };
+    }
+}
+
+/**
+ * Fill `content` for each item from its article page (stored, or fetched with
+ * at most ARTICLE_CONCURRENCY in flight). Items keep whatever content they had
+ * when their article can't be fetched.
+ */
+export async function attachFullText(
+    items: RSSItem[],
+    chain: string[],
+    markdownMethod: MarkdownMethod
+): Promise<FullTextResult> {
+    const results = await mapWithConcurrency(items, ARTICLE_CONCURRENCY, (item) =>
+        fullTextFor(item, chain, markdownMethod)
+    );
+
+    const count = (outcome: ArticleOutcome) => results.filter((result) => result.outcome === outcome).length;
+    return {
+        items: results.map((result) => result.item),
+        fetched: count("fetched"),
+        cached: count("cached"),
+        failed: count("failed"),
+        skipped: count("skipped"),
+    };
+}
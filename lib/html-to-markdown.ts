@@ -0,0 +1,86 @@
+// lib/html-to-markdown.ts
+// In-process HTML → markdown conversion for the "direct" markdown provider.
+//
+// Jina Reader and markdown.new are third-party services. When both are down
+// or rate-limiting us, we fetch the raw HTML ourselves and convert it here.
+// The same SiteSelectors used for Jina (target/remove) are applied to the DOM
+// before conversion, so per-domain configs keep working. `waitForSelector`
+// needs a real browser and is ignored by this converter.
+
+import { load, type CheerioAPI } from "cheerio";
+import TurndownService from "turndown";
+import { type SiteSelectors } from "@/lib/site-selectors";
+import { absoluteUrl } from "@/lib/url";
+
+// Elements that never carry article content and only bloat the LLM input
+const NON_CONTENT_SELECTOR = "script, style, noscript, template, iframe, svg, canvas, link, meta, form";
+
+const turndown = new TurndownService({
+    headingStyle: "atx",
+    codeBlockStyle: "fenced",
+    bulletListMarker: "-",
+});
+
+/** Run a user-supplied selector, treating syntax errors as "no match" instead of crashing */
+function safeSelect($: CheerioAPI, selector: string) {
+    try {
+        return $(selector);
+    } catch (e) {
+        console.warn(`[Direct] Ignoring invalid selector "${selector}":`, e);
+        return null;
+    }
+}
+
+/**
+ * Convert a full HTML document into markdown, applying Jina-style target/remove selectors.
+ * Relative links and images are resolved against `baseUrl` so the LLM sees absolute URLs.
+ */
+export function htmlToMarkdown(html: string, baseUrl: string, selectors: SiteSelectors = {}): string {
+    const $ = load(html);
+    const title = $("title").first().text().trim();
+
+    $(NON_CONTENT_SELECTOR).remove();
+    if (selectors.removeSelector) {
+        const removed = safeSelect($, selectors.removeSelector);
+        if (removed) {
+            removed.remove();
+        } else {
+            // One unsupported part shouldn't disable the whole list — retry each part alone
+            for (const part of selectors.removeSelector.split(",")) {
+                if (part.trim()) safeSelect($, part.trim())?.remove();
+            }
+        }
+    }
+
+    $("a[href]").each((_, el) => {
+        const href = absoluteUrl($(el).attr("href"), baseUrl);
+        if (href) $(el).attr("href", href);
+    });
+    $("img[src]").each((_, el) => {
+        const src = absoluteUrl($(el).attr("src"), baseUrl);
+        if (src) $(el).attr("src", src);
+    });
+
+    // Target selector: keep only the matching elements (all matches, like Jina)
+    let contentHtml = "";
+    if (selectors.targetSelector) {
+        const targeted = safeSelect($, selectors.targetSelector);
+        if (targeted && targeted.length > 0) {
+            contentHtml = targeted.toArray().map((el) => $.html(el)).join("\n");
+        }
+    }
+    if (!contentHtml) {
+        contentHtml = $("body").html() ?? $.html();
+    }
+
+    const markdown = turndown.turndown(contentHtml).trim();
+
+    // Mirror Jina Reader's response preamble so the LLM prompt sees a familiar shape
+    return [
+        title ? `Title: ${title}` : null,
+        `URL Source: ${baseUrl}`,
+        "",
+        "Markdown Content:",
+        markdown,
+    ].filter((line) => line !== null).join("\n");
+}
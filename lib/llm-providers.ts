@@ -0,0 +1,261 @@
+// lib/llm-providers.ts
+// Named LLM backends and fallback chains.
+//
+// There used to be one OpenAI client (one key, one base URL) and one model, so
+// the "try the next model" loop in generateFeedData had nothing to fall back
+// to. Backends are now named, each with its own base URL, key env var, default
+// model, max_tokens, and JSON-mode support, and extraction walks an ordered
+// chain of them (e.g. deepseek → openai → a local Ollama). A chain entry is a
+// backend name, optionally with a model: "openai:gpt-4o-mini".
+//
+// Built-in backends read their settings from the environment; LLM_BACKENDS
+// (JSON) adds backends or overrides built-in fields.
+
+import OpenAI, { APIConnectionError } from "openai";
+
+// --- Types ---
+
+export interface LLMBackend {
+    name: string;            // value used in `llm=`, LLM_CHAIN, and per-domain `llmChain`
+    baseUrl: string;
+    apiKeyEnv: string[];     // env vars holding the API key, first set wins; empty = keyless (local servers)
+    model: string;           // model used when the chain entry doesn't name one
+    maxTokens: number;
+    jsonMode: boolean;       // supports response_format: { type: "json_object" }
+    timeoutMs: number;
+}
+
+export interface LLMTarget {
+    backend: LLMBackend;
+    model: string;
+}
+
+// --- Settings ---
+
+const DEFAULT_MAX_TOKENS = 8192;
+const DEFAULT_TIMEOUT_MS = 60_000;
+
+// One SDK retry per backend; after that the chain moves on instead of backing off
+const CLIENT_MAX_RETRIES = 1;
+
+/** Chain used when neither the request, the domain, nor LLM_CHAIN names one */
+export const DEFAULT_LLM_CHAIN = ["deepseek"];
+
+// --- Registry ---
+
+function builtInBackends(): LLMBackend[] {
+    const env = process.env;
+    // Without DEEPSEEK_API_KEY, the deepseek backend keeps honouring the
+    // OPENAI_* variables it always accepted as fallbacks
+    const legacy = !env.DEEPSEEK_API_KEY;
+
+    return [
+        {
+            name: "deepseek",
+            baseUrl: env.DEEPSEEK_BASE_URL || (legacy && env.OPENAI_BASE_URL) || "https://api.deepseek.com",
+            apiKeyEnv: legacy ? ["DEEPSEEK_API_KEY", "OPENAI_API_KEY"] : ["DEEPSEEK_API_KEY"],
+            model: env.DEEPSEEK_MODEL || (legacy && env.OPENAI_MODEL) || "deepseek-v4-flash",
+            maxTokens: DEFAULT_MAX_TOKENS,
+            jsonMode: true,
+            timeoutMs: DEFAULT_TIMEOUT_MS,
+        },
+        {
+            name: "openai",
+            baseUrl: env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+            apiKeyEnv: ["OPENAI_API_KEY"],
+            model: env.OPENAI_MODEL || "gpt-4o-mini",
+            maxTokens: DEFAULT_MAX_TOKENS,
+            jsonMode: true,
+            timeoutMs: DEFAULT_TIMEOUT_MS,
+        },
+        {
+            name: "ollama",
+            baseUrl: env.OLLAMA_BASE_URL || "http://localhost:11434/v1",
+            apiKeyEnv: [],
+            model: env.OLLAMA_MODEL || "llama3.1",
+            maxTokens: DEFAULT_MAX_TOKENS,
+            jsonMode: true,
+            timeoutMs: 120_000,
+        },
+    ];
+}
+
+/** Backends from LLM_BACKENDS: `{"name": {"baseUrl", "apiKeyEnv", "model", "maxTokens", "jsonMode", "timeoutMs"}}` */
+function configuredBackends(base: Map<string, LLMBackend>): LLMBackend[] {
+    const raw = process.env.LLM_BACKENDS;
+    if (!raw) return [];
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        console.warn("[LLM] LLM_BACKENDS is not valid JSON, ignoring it");
+        return [];
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        console.warn("[LLM] LLM_BACKENDS must be an object keyed by backend name, ignoring it");
+        return [];
+    }
+
+    const backends: LLMBackend[] = [];
+    for (const [name, value] of Object.entries(parsed as Record<string, unknown>)) {
+        const record = value && typeof value === "object" ? value as Record<string, unknown> : {};
+        const merged = {
+            ...base.get(name),
+            name,
+            ...(typeof record.baseUrl === "string" ? { baseUrl: record.baseUrl } : {}),
+            ...(typeof record.apiKeyEnv === "string" ? { apiKeyEnv: record.apiKeyEnv ? [record.apiKeyEnv] : [] } : {}),
+            ...(typeof record.model === "string" ? { model: record.model } : {}),
+            ...(typeof record.maxTokens === "number" ? { maxTokens: record.maxTokens } : {}),
+            ...(typeof record.jsonMode === "boolean" ? { jsonMode: record.jsonMode } : {}),
+            ...(typeof record.timeoutMs === "number" ? { timeoutMs: record.timeoutMs } : {}),
+        };
+        if (!merged.baseUrl || !merged.model || /[:,]/.test(name)) {
+            console.warn(`[LLM] LLM_BACKENDS.${name} needs a baseUrl and a model (and no ":" or "," in its name), ignoring it`);
+            continue;
+        }
+        backends.push({
+            apiKeyEnv: [],
+            maxTokens: DEFAULT_MAX_TOKENS,
+            jsonMode: true,
+            timeoutMs: DEFAULT_TIMEOUT_MS,
+            ...merged,
+        } as LLMBackend);
+    }
+    return backends;
+}
+
+export function listLLMBackends(): LLMBackend[] {
+    const backends = new Map(builtInBackends().map((backend) => [backend.name, backend]));
+    for (const backend of configuredBackends(backends)) {
+        backends.set(backend.name, backend);
+    }
+    return Array.from(backends.values());
+}
+
+export function getLLMBackend(name: string): LLMBackend | undefined {
+    return listLLMBackends().find((backend) => backend.name === name);
+}
+
+// --- Chains ---
+
+/** Split a chain entry ("openai" or "ollama:llama3.1:8b") into backend name and optional model */
+function splitEntry(entry: string): { name: string; model?: string } {
+    const index = entry.indexOf(":");
+    return index === -1
+        ? { name: entry.trim() }
+        : { name: entry.slice(0, index).trim(), model: entry.slice(index + 1).trim() || undefined };
+}
+
+/**
+ * Parse an `llm` value (or a configured chain) into chain entries. Accepts a
+ * comma-separated string or an array of "backend" / "backend:model" entries.
+ * Unknown backends are dropped; returns null when nothing valid remains.
+ */
+export function parseLLMChain(value: string | string[] | null | undefined): string[] | null {
+    if (!value) return null;
+    const known = new Set(listLLMBackends().map((backend) => backend.name));
+    const entries = (Array.isArray(value) ? value : value.split(","))
+        .map((entry) => entry.trim())
+        .filter((entry) => entry && known.has(splitEntry(entry).name));
+    const unique = Array.from(new Set(entries));
+    return unique.length > 0 ? unique : null;
+}
+
+/** LLM_CHAIN from the environment, else DEFAULT_LLM_CHAIN */
+export function defaultLLMChain(): string[] {
+    return parseLLMChain(process.env.LLM_CHAIN) ?? DEFAULT_LLM_CHAIN;
+}
+
+/** `backend:model` for a chain entry, so "openai" and "openai:gpt-4o-mini" compare equal */
+function targetKey(entry: string): string | null {
+    const target = resolveLLMTarget(entry);
+    return target ? `${target.backend.name}:${target.model}` : null;
+}
+
+/**
+ * Parse the `llm` request parameter. Anyone can send it, so unless the
+ * request is `trusted` (admin, or a saved feed's own pinned chain) only
+ * entries an operator already configured survive: the domain's chain
+ * (`configured`), LLM_CHAIN, and LLM_REQUEST_ALLOWLIST. Otherwise a caller
+ * could run extractions on the priciest model any configured key can reach.
+ */
+export function parseRequestedLLMChain(
+    value: string | null,
+    configured: string[],
+    trusted: boolean
+): string[] | null {
+    const chain = parseLLMChain(value);
+    if (!chain || trusted) return chain;
+
+    const allowed = new Set(
+        [...configured, ...defaultLLMChain(), ...(parseLLMChain(process.env.LLM_REQUEST_ALLOWLIST) ?? [])]
+            .map(targetKey)
+    );
+    const permitted = chain.filter((entry) => allowed.has(targetKey(entry)));
+    if (permitted.length < chain.length) {
+        const dropped = chain.filter((entry) => !permitted.includes(entry));
+        console.warn(`[LLM] Ignoring llm entries not in LLM_REQUEST_ALLOWLIST or a configured chain: ${dropped.join(", ")}`);
+    }
+    return permitted.length > 0 ? permitted : null;
+}
+
+/** Problems with a configured chain (prefixed with `path`); empty when every entry names a known backend */
+export function validateLLMChain(value: unknown, path = "llmChain"): string[] {
+    if (!Array.isArray(value) || value.some((entry) => typeof entry !== "string" || !entry.trim())) {
+        return [`${path}: must be an array of backend names (optionally "backend:model")`];
+    }
+    const known = new Set(listLLMBackends().map((backend) => backend.name));
+    return (value as string[])
+        .filter((entry) => !known.has(splitEntry(entry).name))
+        .map((entry) => `${path}: unknown LLM backend "${splitEntry(entry).name}"`);
+}
+
+export function resolveLLMTarget(entry: string): LLMTarget | null {
+    const { name, model } = splitEntry(entry);
+    const backend = getLLMBackend(name);
+    return backend ? { backend, model: model ?? backend.model } : null;
+}
+
+// --- Clients ---
+
+const clients = new Map<string, OpenAI>();
+
+function apiKeyFor(backend: LLMBackend): string | undefined {
+    for (const name of backend.apiKeyEnv) {
+        if (process.env[name]) return process.env[name];
+    }
+    return undefined;
+}
+
+/**
+ * OpenAI-compatible client for a backend (created on first use, so builds work
+ * without keys). Throws when the backend needs a key and none is set.
+ */
+export function getLLMClient(backend: LLMBackend): OpenAI {
+    const apiKey = apiKeyFor(backend);
+    if (backend.apiKeyEnv.length > 0 && !apiKey) {
+        throw new Error(`No API key for LLM backend "${backend.name}" (set ${backend.apiKeyEnv.join(" or ")})`);
+    }
+
+    const cacheKey = `${backend.name}|${backend.baseUrl}|${backend.timeoutMs}|${apiKey ?? ""}`;
+    let client = clients.get(cacheKey);
+    if (!client) {
+        client = new OpenAI({
+            // Keyless local servers still need a non-empty key for the SDK
+            apiKey: apiKey ?? "not-needed",
+            baseURL: backend.baseUrl,
+            timeout: backend.timeoutMs,
+            maxRetries: CLIENT_MAX_RETRIES,
+        });
+        clients.set(cacheKey, client);
+    }
+    return client;
+}
+
+/** Rate limits, 5xx responses, timeouts, and connection failures move on to the next chain entry */
+export function isRetryableLLMError(error: unknown): boolean {
+    if (error instanceof APIConnectionError) return true;
+    const status = (error as { status?: number })?.status;
+    return status === 429 || (typeof status === "number" && status >= 500);
+}
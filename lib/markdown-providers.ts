@@ -0,0 +1,280 @@
+// lib/markdown-providers.ts
+// Pluggable markdown provider layer.
+//
+// Each provider turns a webpage URL into markdown for the LLM. Providers are
+// registered by name; `fetchWithProviderChain` walks an ordered chain of names
+// and returns the first success together with a record of every attempt, so
+// callers can report which provider won and why the earlier ones failed.
+//
+// Adding a provider means calling `registerMarkdownProvider` — the route
+// handlers only ever deal with provider names and chains.
+
+import { htmlToMarkdown } from "@/lib/html-to-markdown";
+import { type SiteSelectors } from "@/lib/site-selectors";
+import { assertPublicUrl } from "@/lib/url";
+
+// --- Types ---
+
+export type MarkdownMethod = "auto" | "ai" | "browser";
+
+export interface MarkdownFetchOptions {
+    selectors: SiteSelectors;
+    markdownMethod: MarkdownMethod;
+}
+
+export interface MarkdownProvider {
+    name: string;                // value used in `source=` and per-domain chains
+    label: string;               // human-readable label for X-Content-Source
+    supportsSelectors: boolean;  // whether target/remove selectors are honoured
+    fetch(url: string, options: MarkdownFetchOptions): Promise<string>;
+}
+
+export interface ProviderAttempt {
+    provider: string;
+    ok: boolean;
+    durationMs: number;
+    error?: string;
+}
+
+export interface PageFetchResult {
+    content: string;
+    provider: string;
+    attempts: ProviderAttempt[];
+}
+
+/** Thrown when every provider in a chain failed; carries the per-provider failure reasons */
+export class ProviderChainError extends Error {
+    constructor(public readonly attempts: ProviderAttempt[]) {
+        super(
+            attempts.length > 0
+                ? `All markdown providers failed: ${attempts.map((a) => `${a.provider} (${a.error})`).join("; ")}`
+                : "No markdown providers to try"
+        );
+        this.name = "ProviderChainError";
+    }
+}
+
+// --- Registry ---
+
+const providers = new Map<string, MarkdownProvider>();
+
+export function registerMarkdownProvider(provider: MarkdownProvider): void {
+    providers.set(provider.name, provider);
+}
+
+export function getMarkdownProvider(name: string): MarkdownProvider | undefined {
+    return providers.get(name);
+}
+
+export function listMarkdownProviders(): MarkdownProvider[] {
+    return Array.from(providers.values());
+}
+
+/** Chain used for `source=auto` when the domain has no configured chain */
+export const DEFAULT_PROVIDER_CHAIN = ["jina", "markdown", "direct"];
+
+/**
+ * Parse a `source` value (or a configured chain) into provider names.
+ * Accepts "auto", a single provider name, or a comma-separated chain.
+ * Unknown names are dropped; returns null for "auto" or when nothing valid remains.
+ */
+export function parseProviderChain(value: string | string[] | null | undefined): string[] | null {
+    if (!value) return null;
+    const names = (Array.isArray(value) ? value : value.split(","))
+        .map((name) => name.trim())
+        .filter((name) => name && name !== "auto" && providers.has(name));
+    const unique = Array.from(new Set(names));
+    return unique.length > 0 ? unique : null;
+}
+
+export function parseMarkdownMethod(value: string | null): MarkdownMethod {
+    if (value === "ai" || value === "browser") {
+        return value;
+    }
+    return "auto";
+}
+
+// --- Chain execution ---
+
+export async function fetchWithProviderChain(
+    url: string,
+    chain: string[],
+    options: MarkdownFetchOptions
+): Promise<PageFetchResult> {
+    const attempts: ProviderAttempt[] = [];
+
+    for (const name of chain) {
+        const provider = providers.get(name);
+        if (!provider) {
+            attempts.push({ provider: name, ok: false, durationMs: 0, error: "unknown provider" });
+            continue;
+        }
+
+        const startTime = Date.now();
+        try {
+            console.log(`[Markdown:${name}] Fetching fresh content for: ${url}`);
+            const content = await provider.fetch(url, options);
+            attempts.push({ provider: name, ok: true, durationMs: Date.now() - startTime });
+            return { content, provider: name, attempts };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            attempts.push({ provider: name, ok: false, durationMs: Date.now() - startTime, error: message });
+            console.warn(`[Markdown:${name}] Failed for ${url}: ${message}`);
+        }
+    }
+
+    throw new ProviderChainError(attempts);
+}
+
+/** Compact single-line summary of attempts, safe for an HTTP header */
+export function formatAttempts(attempts: ProviderAttempt[]): string {
+    return attempts
+        .map((a) => (a.ok ? `${a.provider}=ok` : `${a.provider}=failed(${a.error ?? "unknown"})`))
+        .join("; ")
+        .replace(/[^\x20-\x7E]/g, "?");
+}
+
+// --- Built-in providers ---
+
+/** User-Agent for requests we make to target sites ourselves (direct provider, feed discovery) */
+export const FETCH_USER_AGENT = "Mozilla/5.0 (compatible; RSS-GenAI/1.0; +https://github.com/signup2k/rss-genai)";
+
+// Reader services render the page in a browser first, so they get longer than our own fetches
+const SERVICE_TIMEOUT_MS = 45_000;
+const DIRECT_TIMEOUT_MS = 15_000;
+const MAX_REDIRECTS = 5;
+
+async function fetchWithJina(url: string, selectors: SiteSelectors): Promise<string> {
+    const jinaUrl = `https://r.jina.ai/${url}`;
+
+    const headers: Record<string, string> = {
+        "Accept": "text/markdown",
+    };
+
+    if (selectors.targetSelector) {
+        headers["X-Target-Selector"] = selectors.targetSelector;
+    }
+
+    if (selectors.removeSelector) {
+        headers["X-Remove-Selector"] = selectors.removeSelector;
+    }
+
+    if (selectors.waitForSelector) {
+        headers["X-Wait-For-Selector"] = selectors.waitForSelector;
+    }
+
+    const response = await fetch(jinaUrl, {
+        headers,
+        signal: AbortSignal.timeout(SERVICE_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+        throw new Error(`Jina Reader failed: ${response.status} ${response.statusText}`);
+    }
+
+    return response.text();
+}
+
+async function fetchWithMarkdownNew(url: string, method: MarkdownMethod): Promise<string> {
+    const response = await fetch("https://markdown.new/", {
+        method: "POST",
+        headers: {
+            "Accept": "text/markdown",
+            "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+            url,
+            method,
+        }),
+        signal: AbortSignal.timeout(SERVICE_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+        throw new Error(`markdown.new failed: ${response.status} ${response.statusText}`);
+    }
+
+    return response.text();
+}
+
+export interface RawPage {
+    body: string;
+    contentType: string;
+    finalUrl: string;   // after redirects
+}
+
+/**
+ * Fetch a page from the target site ourselves (no third-party service); throws
+ * on non-2xx, private hosts (see assertPublicUrl), and after DIRECT_TIMEOUT_MS.
+ * Redirects are followed by hand so every hop gets the same host check.
+ */
+export async function fetchRawPage(
+    url: string,
+    accept = "text/html,application/xhtml+xml;q=0.9,*/*;q=0.8"
+): Promise<RawPage> {
+    const signal = AbortSignal.timeout(DIRECT_TIMEOUT_MS);
+    let current = new URL(url);
+
+    for (let redirects = 0; ; redirects++) {
+        await assertPublicUrl(current);
+        const response = await fetch(current, {
+            headers: {
+                "Accept": accept,
+                "User-Agent": FETCH_USER_AGENT,
+            },
+            redirect: "manual",
+            signal,
+        });
+
+        const location = response.headers.get("location");
+        if (response.status >= 300 && response.status < 400 && location) {
+            await response.body?.cancel();
+            if (redirects >= MAX_REDIRECTS) {
+                throw new Error(`Direct fetch failed: more than ${MAX_REDIRECTS} redirects`);
+            }
+            current = new URL(location, current);
+            continue;
+        }
+
+        if (!response.ok) {
+            throw new Error(`Direct fetch failed: ${response.status} ${response.statusText}`);
+        }
+
+        return {
+            body: await response.text(),
+            contentType: response.headers.get("content-type") || "",
+            finalUrl: current.toString(),
+        };
+    }
+}
+
+async function fetchDirect(url: string, selectors: SiteSelectors): Promise<string> {
+    const page = await fetchRawPage(url);
+
+    if (page.contentType && !/html|xml/i.test(page.contentType)) {
+        throw new Error(`Direct fetch returned non-HTML content: ${page.contentType}`);
+    }
+
+    // Resolve relative links against the final URL after redirects
+    return htmlToMarkdown(page.body, page.finalUrl, selectors);
+}
+
+registerMarkdownProvider({
+    name: "jina",
+    label: "jina-reader-filtered",
+    supportsSelectors: true,
+    fetch: (url, { selectors }) => fetchWithJina(url, selectors),
+});
+
+registerMarkdownProvider({
+    name: "markdown",
+    label: "markdown.new",
+    supportsSelectors: false,
+    fetch: (url, { markdownMethod }) => fetchWithMarkdownNew(url, markdownMethod),
+});
+
+registerMarkdownProvider({
+    name: "direct",
+    label: "direct-html",
+    supportsSelectors: true,
+    fetch: (url, { selectors }) => fetchDirect(url, selectors),
+});
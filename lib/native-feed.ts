@@ -0,0 +1,217 @@
+// lib/native-feed.ts
+// Native RSS/Atom feed discovery.
+//
+// Many pages we are pointed at already advertise a real feed, either through
+// <link rel="alternate" type="application/rss+xml"> in the <head> or at a
+// conventional path such as /feed. When one exists it is cheaper (no Jina,
+// no LLM) than extraction, so with native=prefer /api/rss tries it first and
+// maps the feed into the same RSSFeedData shape the LLM path produces. It is
+// opt-in: the advertised feed is often site-wide or truncated, and it ignores
+// the selectors, instructions and extra fields configured for the page.
+
+import { load, type CheerioAPI } from "cheerio";
+import { fetchRawPage, type RawPage } from "@/lib/markdown-providers";
+import { type RSSFeedData, type RSSItem } from "@/lib/xml-builder";
+import { toRFC822 } from "@/lib/dates";
+import { absoluteUrl } from "@/lib/url";
+
+// --- Types ---
+
+export type NativeFeedMode = "never" | "prefer" | "only";
+
+export interface NativeFeedResult {
+    feedUrl: string;
+    feed: RSSFeedData;
+}
+
+// --- Helpers ---
+
+const FEED_LINK_TYPES = ["application/rss+xml", "application/atom+xml", "application/rdf+xml"];
+
+// Tried when the page advertises nothing. Site-root paths are only probed for the site's
+// home page — on a section page they would return the whole site's feed instead.
+const CONVENTIONAL_FEED_PATHS = ["/feed", "/rss", "/feed.xml", "/rss.xml", "/atom.xml", "/index.xml"];
+
+const MAX_DESCRIPTION_CHARS = 500;
+
+export function parseNativeFeedMode(value: string | null): NativeFeedMode {
+    if (value === "prefer" || value === "only") {
+        return value;
+    }
+    return "never";
+}
+
+/** Plain text from an HTML fragment, collapsed and capped for <description> */
+function htmlToText(html: string): string {
+    const text = load(`<div>${html}</div>`)("div").first().text().replace(/\s+/g, " ").trim();
+    return text.length > MAX_DESCRIPTION_CHARS
+        ? `${text.slice(0, MAX_DESCRIPTION_CHARS).trimEnd()}…`
+        : text;
+}
+
+async function fetchText(url: string, accept: string): Promise<RawPage | null> {
+    try {
+        return await fetchRawPage(url, accept);
+    } catch {
+        return null;
+    }
+}
+
+// --- Parsing ---
+
+function childText($: CheerioAPI, parent: ReturnType<CheerioAPI>, ...tags: string[]): string {
+    for (const tag of tags) {
+        // Escape namespace prefixes (content:encoded, dc:date) for the CSS selector engine
+        const value = parent.children(tag.replace(":", "\\:")).first().text().trim();
+        if (value) return value;
+    }
+    return "";
+}
+
+function parseRSS($: CheerioAPI, feedUrl: string): RSSFeedData | null {
+    const channel = $("channel").first();
+    // RSS 1.0 (RDF) keeps items as siblings of <channel>, RSS 2.0 nests them inside
+    const itemNodes = $("channel > item").length > 0 ? $("channel > item") : $("item");
+    if (channel.length === 0 && itemNodes.length === 0) return null;
+
+    const items: RSSItem[] = itemNodes.toArray().map((node) => {
+        const el = $(node);
+        const link = absoluteUrl(childText($, el, "link") || el.attr("rdf:about"), feedUrl) ?? "";
+        const rawDescription = childText($, el, "description");
+        const content = childText($, el, "content:encoded");
+        const title = childText($, el, "title") || link;
+
+        return {
+            title: htmlToText(title),
+            link,
+            guid: childText($, el, "guid") || link,
+            description: htmlToText(rawDescription || content) || title,
+            pubDate: toRFC822(childText($, el, "pubDate", "dc:date")),
+            categories: el.children("category, dc\\:subject").toArray()
+                .map((c) => $(c).text().trim())
+                .filter(Boolean),
+            content: content || undefined,
+        };
+    }).filter((item) => item.title && item.link);
+
+    return {
+        channel: {
+            title: childText($, channel, "title") || feedUrl,
+            link: absoluteUrl(childText($, channel, "link"), feedUrl) ?? feedUrl,
+            description: childText($, channel, "description"),
+        },
+        items,
+    };
+}
+
+function parseAtom($: CheerioAPI, feedUrl: string): RSSFeedData | null {
+    const feed = $("feed").first();
+    if (feed.length === 0) return null;
+
+    const alternateHref = (el: ReturnType<CheerioAPI>) => {
+        const links = el.children("link").toArray().map((l) => $(l));
+        const alternate = links.find((l) => !l.attr("rel") || l.attr("rel") === "alternate") ?? links[0];
+        return absoluteUrl(alternate?.attr("href"), feedUrl);
+    };
+
+    const items: RSSItem[] = feed.children("entry").toArray().map((node) => {
+        const el = $(node);
+        const link = alternateHref(el) ?? "";
+        const summary = childText($, el, "summary");
+        const content = childText($, el, "content");
+        const title = childText($, el, "title") || link;
+
+        return {
+            title: htmlToText(title),
+            link,
+            guid: childText($, el, "id") || link,
+            description: htmlToText(summary || content) || title,
+            pubDate: toRFC822(childText($, el, "published", "updated")),
+            categories: el.children("category").toArray()
+                .map((c) => $(c).attr("term")?.trim() || "")
+                .filter(Boolean),
+            content: content || undefined,
+        };
+    }).filter((item) => item.title && item.link);
+
+    return {
+        channel: {
+            title: childText($, feed, "title") || feedUrl,
+            link: alternateHref(feed) ?? feedUrl,
+            description: childText($, feed, "subtitle"),
+        },
+        items,
+    };
+}
+
+/** Parse an RSS 2.0, RSS 1.0 (RDF) or Atom document; returns null if it isn't a feed */
+export function parseFeedXml(xml: string, feedUrl: string): RSSFeedData | null {
+    const $ = load(xml, { xml: true });
+    if ($("feed").length > 0) return parseAtom($, feedUrl);
+    if ($("rss, rdf\\:RDF, channel").length > 0) return parseRSS($, feedUrl);
+    return null;
+}
+
+/** Feed URLs advertised via <link rel="alternate"> in the page's HTML */
+export function findAdvertisedFeeds(html: string, pageUrl: string): string[] {
+    const $ = load(html);
+    const urls = $('link[rel~="alternate"][href]').toArray()
+        .filter((el) => FEED_LINK_TYPES.includes(($(el).attr("type") || "").toLowerCase().split(";")[0].trim()))
+        .map((el) => absoluteUrl($(el).attr("href"), pageUrl))
+        .filter((url): url is string => Boolean(url));
+
+    // Sites often advertise both a site-wide and a section feed; prefer feeds under the page's own path
+    const pagePath = new URL(pageUrl).pathname.replace(/\/+$/, "");
+    const underPage = (url: string) => (pagePath && new URL(url).pathname.startsWith(pagePath) ? 0 : 1);
+    return Array.from(new Set(urls)).sort((a, b) => underPage(a) - underPage(b));
+}
+
+function conventionalFeedUrls(pageUrl: string): string[] {
+    const page = new URL(pageUrl);
+    const path = page.pathname.replace(/\/+$/, "");
+    if (path) {
+        return [`${page.origin}${path}/feed`];
+    }
+    return CONVENTIONAL_FEED_PATHS.map((feedPath) => `${page.origin}${feedPath}`);
+}
+
+// --- Discovery ---
+
+/**
+ * Find and parse the page's own feed. Order: the URL itself (if it already
+ * is a feed) → <link rel="alternate"> → conventional paths. Returns the first
+ * candidate that parses into at least one item, or null.
+ */
+export async function discoverNativeFeed(pageUrl: string): Promise<NativeFeedResult | null> {
+    const feedAccept = "application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.9, */*;q=0.5";
+    const page = await fetchText(pageUrl, `text/html, ${feedAccept}`);
+
+    const tryFeed = async (candidate: string, prefetched?: string): Promise<NativeFeedResult | null> => {
+        const body = prefetched ?? (await fetchText(candidate, feedAccept))?.body;
+        if (!body) return null;
+        const feed = parseFeedXml(body, candidate);
+        if (!feed || feed.items.length === 0) return null;
+        console.log(`[NativeFeed] Found ${feed.items.length} items at ${candidate}`);
+        return { feedUrl: candidate, feed };
+    };
+
+    if (page && /xml|rss|atom/i.test(page.contentType)) {
+        const direct = await tryFeed(page.finalUrl, page.body);
+        if (direct) return direct;
+    }
+
+    const advertised = page ? findAdvertisedFeeds(page.body, page.finalUrl) : [];
+    for (const candidate of advertised) {
+        const result = await tryFeed(candidate);
+        if (result) return result;
+    }
+
+    // Probe conventional paths in parallel, but keep the first match in priority order
+    const conventional = conventionalFeedUrls(page?.finalUrl ?? pageUrl).filter((url) => !advertised.includes(url));
+    const probed = await Promise.all(conventional.map((candidate) => tryFeed(candidate)));
+    const found = probed.find((result): result is NativeFeedResult => result !== null);
+    if (found) return found;
+
+    console.log(`[NativeFeed] No native feed found for ${pageUrl}`);
+    return null;
+}
@@ -0,0 +1,128 @@
+// lib/opml.ts
+// OPML 2.0 export and import for moving feeds between readers.
+//
+// Export writes one <outline type="rss"> per saved or tracked feed, with
+// `xmlUrl` pointing back at this deployment. Import accepts OPML from any
+// reader: outlines may be plain website URLs, third-party feeds, or feeds
+// generated by an RSS-GenAI instance (whose /api/rss query is unpacked so the
+// original target URL and parameters are kept).
+
+import { load } from "cheerio";
+import { escapeXml } from "@/lib/xml-builder";
+import { FEED_PARAM_NAMES } from "@/lib/feeds";
+import { parseHttpUrl } from "@/lib/url";
+
+// --- Types ---
+
+export interface OpmlOutline {
+    title: string;
+    xmlUrl: string;    // feed URL readers subscribe to
+    htmlUrl: string;   // the webpage the feed is generated from
+}
+
+/** One importable entry: a target webpage (or feed) plus any /api/rss params found in the OPML */
+export interface OpmlImportEntry {
+    name: string;
+    url: string;
+    params: Record<string, string>;
+}
+
+export interface OpmlParseResult {
+    entries: OpmlImportEntry[];
+    skipped: Array<{ outline: string; reason: string }>;
+}
+
+// --- Export ---
+
+export function buildOpml(title: string, outlines: OpmlOutline[]): string {
+    const lines: string[] = [];
+
+    lines.push(`<?xml version="1.0" encoding="UTF-8"?>`);
+    lines.push(`<opml version="2.0">`);
+    lines.push(`  <head>`);
+    lines.push(`    <title>${escapeXml(title)}</title>`);
+    lines.push(`    <dateCreated>${new Date().toUTCString()}</dateCreated>`);
+    lines.push(`  </head>`);
+    lines.push(`  <body>`);
+
+    for (const outline of outlines) {
+        lines.push(
+            `    <outline type="rss" text="${escapeXml(outline.title)}" title="${escapeXml(outline.title)}"` +
+            ` xmlUrl="${escapeXml(outline.xmlUrl)}" htmlUrl="${escapeXml(outline.htmlUrl)}"/>`
+        );
+    }
+
+    lines.push(`  </body>`);
+    lines.push(`</opml>`);
+
+    return lines.join("\n");
+}
+
+// --- Import ---
+
+/**
+ * Work out what to generate for one outline. Order: an RSS-GenAI /api/rss URL
+ * (unpacked) → any other feed's xmlUrl (saved with native=prefer, so native
+ * feed discovery reads it directly) → htmlUrl / url / a URL in the text.
+ */
+function entryFromOutline(attrs: Record<string, string | undefined>): OpmlImportEntry | string {
+    const xmlUrl = parseHttpUrl(attrs.xmlUrl ?? attrs.xmlurl);
+    const htmlUrl = parseHttpUrl(attrs.htmlUrl ?? attrs.htmlurl);
+    const name = (attrs.title || attrs.text || "").trim();
+
+    if (xmlUrl && xmlUrl.pathname === "/api/rss" && parseHttpUrl(xmlUrl.searchParams.get("url"))) {
+        const params: Record<string, string> = {};
+        for (const key of FEED_PARAM_NAMES) {
+            const value = xmlUrl.searchParams.get(key);
+            if (value) params[key] = value;
+        }
+        const target = xmlUrl.searchParams.get("url")!;
+        return { name: name || new URL(target).hostname, url: target, params };
+    }
+
+    // Saved feed from another RSS-GenAI instance: its id means nothing here, fall back to the page
+    const isSavedFeed = xmlUrl !== null && /^\/api\/feeds\/[^/]+\/rss$/.test(xmlUrl.pathname);
+    if (xmlUrl && !isSavedFeed) {
+        return { name: name || xmlUrl.hostname, url: xmlUrl.toString(), params: { native: "prefer" } };
+    }
+    const target = htmlUrl
+        ?? parseHttpUrl(attrs.url)
+        ?? parseHttpUrl(attrs.text);
+    if (!target) {
+        return "no http(s) xmlUrl, htmlUrl or url";
+    }
+
+    return { name: name || target.hostname, url: target.toString(), params: {} };
+}
+
+/** Parse OPML (nested folders allowed); outlines that only group others are ignored */
+export function parseOpml(xml: string): OpmlParseResult {
+    const $ = load(xml, { xml: true });
+    if ($("opml").length === 0) {
+        throw new Error("Not an OPML document (missing <opml> root)");
+    }
+
+    const entries: OpmlImportEntry[] = [];
+    const skipped: OpmlParseResult["skipped"] = [];
+    const seen = new Set<string>();
+
+    $("outline").each((_, el) => {
+        const node = $(el);
+        const attrs = node.attr() ?? {};
+        const isFolder = node.children("outline").length > 0 && !attrs.xmlUrl && !attrs.htmlUrl && !attrs.url;
+        if (isFolder) return;
+
+        const label = attrs.title || attrs.text || attrs.xmlUrl || "(untitled outline)";
+        const entry = entryFromOutline(attrs);
+        if (typeof entry === "string") {
+            skipped.push({ outline: label, reason: entry });
+        } else if (seen.has(entry.url)) {
+            skipped.push({ outline: label, reason: "duplicate URL in file" });
+        } else {
+            seen.add(entry.url);
+            entries.push(entry);
+        }
+    });
+
+    return { entries, skipped };
+}
@@ -0,0 +1,194 @@
+// lib/pagination.ts
+// Listing-page pagination for pages=N.
+//
+// Many blogs list only 5-10 posts per page, so `limit=30` could never return
+// 30 items. With pages > 1 the LLM path also extracts the following listing
+// pages: their URLs come from a per-domain `pattern` (page n of the listing)
+// or from the "next page" link found in the current page's markdown. Default
+// remove selectors strip <nav>, where that link usually lives, so the raw HTML
+// (rel="next", then link text) is the fallback. The route stops early when a
+// page adds no guids the registry hasn't seen, since everything older is known.
+
+import { load } from "cheerio";
+
+// --- Types ---
+
+export interface PaginationConfig {
+    pages?: number;      // listing pages to extract when the request has no `pages` param
+    pattern?: string;    // URL of page n with "{n}": "?page={n}", "/page/{n}/", or an absolute URL
+}
+
+export type PaginationStop =
+    | "complete"       // every requested page was extracted
+    | "limit"          // enough items for `limit`
+    | "no-new-items"   // the last page only had guids already in the registry
+    | "no-next-page"   // no next-page link (or it pointed back to a visited page)
+    | "budget"         // the LLM budget ran out (see lib/usage)
+    | "error";         // fetching or extracting the next page failed
+
+export interface PaginationStats {
+    requested: number;
+    fetched: number;     // pages extracted, including the first
+    stop: PaginationStop;
+}
+
+// --- Settings ---
+
+export const MAX_PAGES = 10;
+
+const PAGE_PLACEHOLDER = "{n}";
+
+// Link texts that lead to the next (older) listing page, after arrows are stripped
+const NEXT_LABEL = new RegExp(
+    "^(" + [
+        "next", "next page", "next posts?", "next entries", "next articles",
+        "older", "older posts?", "older entries", "older articles", "more posts", "more articles", "more stories",
+        "weiter", "nächste( seite)?", "ältere (beiträge|artikel|einträge)",
+        "suivant(e|es)?", "page suivante", "articles plus anciens",
+        "siguiente", "página siguiente", "entradas anteriores",
+        "下一页", "下一頁", "次へ", "次のページ", "다음",
+    ].join("|") + ")$",
+    "i"
+);
+
+const ARROWS = /[«»‹›←→<>]|&[lr]aquo;|&[lr]arr;/g;
+const NEXT_ARROWS = /^\s*(»|›|→|>|&raquo;|&rarr;)\s*$/;
+
+// --- Validation ---
+
+/** Returns a list of problems (prefixed with `path`); empty when the config is valid */
+export function validatePaginationConfig(config: unknown, path = "pagination"): string[] {
+    if (!config || typeof config !== "object" || Array.isArray(config)) {
+        return [`${path}: must be an object`];
+    }
+
+    const record = config as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (record.pages !== undefined
+        && (typeof record.pages !== "number" || !Number.isInteger(record.pages) || record.pages < 1 || record.pages > MAX_PAGES)) {
+        errors.push(`${path}.pages: must be an integer between 1 and ${MAX_PAGES}`);
+    }
+
+    if (record.pattern !== undefined) {
+        if (typeof record.pattern !== "string" || !record.pattern.includes(PAGE_PLACEHOLDER)) {
+            errors.push(`${path}.pattern: must be a string containing "${PAGE_PLACEHOLDER}"`);
+        } else if (/^[a-z][a-z0-9+.-]*:/i.test(record.pattern) && !/^https?:\/\//i.test(record.pattern)) {
+            errors.push(`${path}.pattern: absolute patterns must be http(s) URLs`);
+        }
+    }
+
+    for (const key of Object.keys(record)) {
+        if (key !== "pages" && key !== "pattern") {
+            errors.push(`${path}.${key}: unknown field`);
+        }
+    }
+
+    return errors;
+}
+
+// --- Page URLs ---
+
+/** Pages to extract: the `pages` param, else the domain's default, else 1 (capped at MAX_PAGES) */
+export function parsePageCount(value: string | null, config?: PaginationConfig): number {
+    const requested = parseInt(value || "", 10);
+    const pages = isNaN(requested) ? config?.pages ?? 1 : requested;
+    return Math.min(Math.max(pages, 1), MAX_PAGES);
+}
+
+/**
+ * URL of listing page `n` from a pattern. "?page={n}" sets query parameters on
+ * the target URL, "/page/{n}/" is appended to its path, and anything else is
+ * resolved against it (absolute URLs are used as they are).
+ */
+export function pageUrl(targetUrl: string, pattern: string, n: number): string {
+    const filled = pattern.split(PAGE_PLACEHOLDER).join(String(n));
+    const url = new URL(targetUrl);
+    url.hash = "";
+
+    if (filled.startsWith("?") || filled.startsWith("&")) {
+        for (const [name, value] of new URLSearchParams(filled.slice(1))) {
+            url.searchParams.set(name, value);
+        }
+        return url.toString();
+    }
+    if (filled.startsWith("/")) {
+        url.pathname = url.pathname.replace(/\/+$/, "") + filled;
+        return url.toString();
+    }
+    return new URL(filled, url).toString();
+}
+
+function sameDocument(a: URL, b: URL): boolean {
+    return a.host === b.host && a.pathname.replace(/\/+$/, "") === b.pathname.replace(/\/+$/, "") && a.search === b.search;
+}
+
+/**
+ * Of the page's links (in page order), the one labelled "Next", "Older posts",
+ * "»", ..., or failing that the one whose URL points at page `pageNumber + 1`
+ * ("?page=3", "/page/3/"). Only same-host http(s) links count.
+ */
+function pickNextPage(links: Array<{ label: string; href: string }>, currentUrl: string, pageNumber: number): string | null {
+    const current = new URL(currentUrl);
+    const next = pageNumber + 1;
+    const numbered = new RegExp(`(?:[?&](?:page|paged|pg|p)=${next}(?:&|$)|/page/${next}/?$)`, "i");
+    let byNumber: string | null = null;
+
+    for (const { label, href } of links) {
+        let url: URL;
+        try {
+            url = new URL(href, current);
+        } catch {
+            continue;
+        }
+        if ((url.protocol !== "http:" && url.protocol !== "https:") || url.host !== current.host) continue;
+        url.hash = "";
+        if (sameDocument(url, current)) continue;
+
+        const text = label.replace(/[*_`]/g, "").trim();
+        if (NEXT_ARROWS.test(text) || NEXT_LABEL.test(text.replace(ARROWS, "").replace(/\s+/g, " ").trim())) {
+            return url.toString();
+        }
+        if (!byNumber && numbered.test(`${url.pathname}${url.search}`)) {
+            byNumber = url.toString();
+        }
+    }
+
+    return byNumber;
+}
+
+/** The next listing page linked from page `pageNumber`'s markdown, or null */
+export function findNextPageUrl(markdown: string, currentUrl: string, pageNumber: number): string | null {
+    const links = Array.from(markdown.matchAll(/(!?)\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g))
+        .filter(([, bang]) => !bang)
+        .map(([, , label, href]) => ({ label, href }));
+    return pickNextPage(links, currentUrl, pageNumber);
+}
+
+/**
+ * The next listing page from page `pageNumber`'s raw HTML: `rel="next"` on a
+ * <link> or <a> first, then the same link-text rules as the markdown. `finalUrl`
+ * is the URL the HTML was served from (relative links resolve against it).
+ */
+export function findNextPageLink(html: string, finalUrl: string, pageNumber: number): string | null {
+    const $ = load(html);
+    const base = $("base[href]").attr("href");
+    let baseUrl = finalUrl;
+    try {
+        if (base) baseUrl = new URL(base, finalUrl).toString();
+    } catch {
+        // Ignore an unusable <base>
+    }
+
+    const relNext = $('link[rel~="next"][href], a[rel~="next"][href]').first().attr("href");
+    if (relNext) {
+        const picked = pickNextPage([{ label: "next", href: relNext }], baseUrl, pageNumber);
+        if (picked) return picked;
+    }
+
+    const links = $("a[href]").toArray().map((anchor) => ({
+        label: $(anchor).text() || $(anchor).attr("aria-label") || $(anchor).attr("title") || "",
+        href: $(anchor).attr("href")!,
+    }));
+    return pickNextPage(links, baseUrl, pageNumber);
+}
@@ -0,0 +1,213 @@
+// lib/recipes.ts
+// Deterministic, selector-based extraction recipes.
+//
+// A recipe describes where the articles are on a domain's listing page: an
+// item container selector plus sub-selectors for title, link, date, summary
+// and categories. When a domain has a recipe, /api/rss builds items straight
+// from the raw HTML with no LLM involved, so the result is the same on every
+// run. Recipes are stored per domain in GlobalSiteConfig.
+
+import { load } from "cheerio";
+import { type RSSChannel, type RSSItem } from "@/lib/xml-builder";
+import { toRFC822 } from "@/lib/dates";
+import { absoluteUrl } from "@/lib/url";
+
+// --- Types ---
+
+export interface ExtractionRecipe {
+    itemSelector: string;        // one match per article
+    titleSelector?: string;      // default: first heading or link in the item
+    linkSelector?: string;       // default: the title's link, else first a[href]
+    dateSelector?: string;       // <time datetime> / content attributes win over text
+    summarySelector?: string;
+    categorySelector?: string;   // every match becomes a category
+    dateFormat?: string;         // hint such as "DD/MM/YYYY" or "MMM D, YYYY"; omit for auto
+}
+
+export interface RecipeResult {
+    channel: RSSChannel;
+    items: RSSItem[];
+}
+
+const RECIPE_SELECTOR_FIELDS = [
+    "itemSelector",
+    "titleSelector",
+    "linkSelector",
+    "dateSelector",
+    "summarySelector",
+    "categorySelector",
+] as const;
+
+// --- Validation ---
+
+function isValidSelector(selector: string): boolean {
+    try {
+        load("")(selector);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** Returns a list of problems (prefixed with `path`); empty when the recipe is valid */
+export function validateRecipe(recipe: unknown, path = "recipe"): string[] {
+    if (!recipe || typeof recipe !== "object" || Array.isArray(recipe)) {
+        return [`${path}: must be an object`];
+    }
+
+    const record = recipe as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (typeof record.itemSelector !== "string" || !record.itemSelector.trim()) {
+        errors.push(`${path}.itemSelector: is required`);
+    }
+
+    for (const field of RECIPE_SELECTOR_FIELDS) {
+        const value = record[field];
+        if (value === undefined || value === "") continue;
+        if (typeof value !== "string") {
+            errors.push(`${path}.${field}: must be a string`);
+        } else if (!isValidSelector(value)) {
+            errors.push(`${path}.${field}: invalid CSS selector "${value}"`);
+        }
+    }
+
+    if (record.dateFormat !== undefined && typeof record.dateFormat !== "string") {
+        errors.push(`${path}.dateFormat: must be a string`);
+    }
+
+    const known = new Set<string>([...RECIPE_SELECTOR_FIELDS, "dateFormat"]);
+    for (const key of Object.keys(record)) {
+        if (!known.has(key)) errors.push(`${path}.${key}: unknown field`);
+    }
+
+    return errors;
+}
+
+// --- Date format hints ---
+
+const MONTH_PREFIXES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const FORMAT_TOKENS: Record<string, string> = {
+    YYYY: "(\\d{4})",
+    YY: "(\\d{2})",
+    MMMM: "([A-Za-z]+)",
+    MMM: "([A-Za-z]{3,}\\.?)",
+    MM: "(\\d{1,2})",
+    M: "(\\d{1,2})",
+    DD: "(\\d{1,2})",
+    D: "(\\d{1,2})",
+    HH: "(\\d{1,2})",
+    H: "(\\d{1,2})",
+    mm: "(\\d{2})",
+};
+
+function parseWithFormat(value: string, format: string): Date | null {
+    const tokens: string[] = [];
+    const pattern = format
+        .split(/(YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|H|mm)/)
+        .map((part) => {
+            if (FORMAT_TOKENS[part]) {
+                tokens.push(part);
+                return FORMAT_TOKENS[part];
+            }
+            // Literal separators; tolerate variable whitespace
+            return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s*");
+        })
+        .join("");
+
+    const match = value.match(new RegExp(pattern));
+    if (!match) return null;
+
+    let year = NaN, month = NaN, day = 1, hour = 0, minute = 0;
+    tokens.forEach((token, index) => {
+        const raw = match[index + 1];
+        switch (token) {
+            case "YYYY": year = Number(raw); break;
+            case "YY": year = 2000 + Number(raw); break;
+            case "MMMM":
+            case "MMM": month = MONTH_PREFIXES.indexOf(raw.slice(0, 3).toLowerCase()); break;
+            case "MM":
+            case "M": month = Number(raw) - 1; break;
+            case "DD":
+            case "D": day = Number(raw); break;
+            case "HH":
+            case "H": hour = Number(raw); break;
+            case "mm": minute = Number(raw); break;
+        }
+    });
+
+    if (isNaN(year) || isNaN(month) || month < 0 || month > 11 || day < 1 || day > 31) return null;
+    return new Date(Date.UTC(year, month, day, hour, minute));
+}
+
+/** Parse a scraped date using the recipe's format hint, falling back to Date.parse; RFC 822 or NO_DATE_FOUND */
+export function parseRecipeDate(value: string, format?: string): string {
+    const trimmed = value.replace(/\s+/g, " ").trim();
+    if (!trimmed) return "NO_DATE_FOUND";
+
+    if (format && format.toLowerCase() !== "iso") {
+        const parsed = parseWithFormat(trimmed, format);
+        if (parsed) return parsed.toUTCString();
+    }
+
+    return toRFC822(trimmed);
+}
+
+// --- Extraction ---
+
+/** Build feed items from raw HTML with a recipe. Items without a title or link are skipped. */
+export function applyRecipe(html: string, pageUrl: string, recipe: ExtractionRecipe): RecipeResult {
+    const $ = load(html);
+    const seen = new Set<string>();
+    const items: RSSItem[] = [];
+
+    $(recipe.itemSelector).each((_, container) => {
+        const el = $(container);
+        const clean = (value: string) => value.replace(/\s+/g, " ").trim();
+
+        const titleEl = recipe.titleSelector
+            ? el.find(recipe.titleSelector).first()
+            : el.find("h1, h2, h3, h4, a").first();
+        const title = clean(titleEl.text());
+
+        // Link: explicit selector > title's own/inner link > first link in the item > the item itself
+        const linkEl = recipe.linkSelector
+            ? el.find(recipe.linkSelector).first()
+            : titleEl.is("a[href]") ? titleEl : titleEl.find("a[href]").first();
+        const href = linkEl.attr("href")
+            || linkEl.find("a[href]").first().attr("href")
+            || el.find("a[href]").first().attr("href")
+            || el.attr("href");
+        const link = absoluteUrl(href, pageUrl);
+
+        if (!title || !link || seen.has(link)) return;
+        seen.add(link);
+
+        const dateEl = recipe.dateSelector ? el.find(recipe.dateSelector).first() : el.find("time").first();
+        const rawDate = dateEl.attr("datetime") || dateEl.attr("content") || dateEl.text();
+        const summary = recipe.summarySelector ? clean(el.find(recipe.summarySelector).first().text()) : "";
+        const categories = recipe.categorySelector
+            ? el.find(recipe.categorySelector).toArray().map((c) => clean($(c).text())).filter(Boolean)
+            : [];
+
+        items.push({
+            title,
+            link,
+            guid: link,
+            description: summary || title,
+            pubDate: parseRecipeDate(rawDate || "", recipe.dateFormat),
+            categories: Array.from(new Set(categories)),
+        });
+    });
+
+    const description = $('meta[name="description"]').attr("content") || $('meta[property="og:description"]').attr("content");
+    return {
+        channel: {
+            title: $("title").first().text().trim() || pageUrl,
+            link: pageUrl,
+            description: description?.trim() || `Items extracted from ${pageUrl}`,
+        },
+        items,
+    };
+}
@@ -0,0 +1,213 @@
+// lib/refresh.ts
+// Background refresher behind /api/cron/refresh.
+//
+// Without it, feeds only regenerate when a reader polls, so `stabiliseDates`
+// stamps firstSeenISO (and fallback pubDates) with the reader's polling time.
+// A scheduled run walks every saved feed plus every tracked page, regenerates
+// the ones whose interval is due via /api/rss?refresh=true with bounded
+// concurrency, and stores the per-job outcome and a short run history.
+
+import {
+    loadFeedDefinitions,
+    loadTrackedFeeds,
+    loadRefreshState,
+    saveRefreshState,
+    appendCronRun,
+    type CronRun,
+    type RefreshResult,
+    type RefreshState,
+} from "@/lib/storage";
+import { feedQueryParams, INTERNAL_REQUEST_HEADER } from "@/lib/feeds";
+import { mapWithConcurrency } from "@/lib/concurrency";
+
+// --- Types ---
+
+export interface RefreshJob {
+    key: string;               // "feed:<id>" or "url:<url>"
+    url: string;
+    feedId?: string;
+    query: URLSearchParams;    // /api/rss parameters, without refresh
+    intervalMinutes: number;
+}
+
+export interface RefreshPlan {
+    jobs: RefreshJob[];
+    due: RefreshJob[];
+    selected: RefreshJob[];    // due jobs within the per-run cap
+    idle: number;              // tracked pages left out because no reader requested them lately
+}
+
+// --- Settings ---
+
+function envInt(name: string, fallback: number, min: number): number {
+    const value = parseInt(process.env[name] || "", 10);
+    return isNaN(value) ? fallback : Math.max(value, min);
+}
+
+const DEFAULT_INTERVAL_MINUTES = () => envInt("CRON_REFRESH_INTERVAL_MINUTES", 60, 5);
+const CONCURRENCY = () => envInt("CRON_CONCURRENCY", 3, 1);
+const MAX_FEEDS_PER_RUN = () => envInt("CRON_MAX_FEEDS_PER_RUN", 25, 1);
+
+// Generation can take minutes (Jina + LLM); don't let one page hold the run
+const JOB_TIMEOUT_MS = 120_000;
+// Below the cron route's maxDuration (300 s): a job is only started while it can
+// still finish in time, so the run history is written before the platform stops us
+const RUN_BUDGET_MS = 280_000;
+
+// A tracked page nobody has requested for this many intervals (and at least
+// MIN_TRACKED_IDLE_MS, since lastRequestedISO is rewritten at most daily) is
+// no longer refreshed; a reader requesting it again brings it back
+const TRACKED_IDLE_INTERVALS = 168;
+const MIN_TRACKED_IDLE_MS = 2 * 24 * 60 * 60 * 1000;
+
+// --- Planning ---
+
+/**
+ * Saved feeds first, then tracked pages that no saved feed already covers and
+ * that a reader requested recently (see TRACKED_IDLE_INTERVALS)
+ */
+export async function collectRefreshJobs(): Promise<{ jobs: RefreshJob[]; idle: number }> {
+    const [feeds, tracked] = await Promise.all([loadFeedDefinitions(), loadTrackedFeeds()]);
+    const defaultInterval = DEFAULT_INTERVAL_MINUTES();
+    const idleAfterMs = Math.max(TRACKED_IDLE_INTERVALS * defaultInterval * 60_000, MIN_TRACKED_IDLE_MS);
+    const now = Date.now();
+    let idle = 0;
+
+    const jobs: RefreshJob[] = Object.values(feeds).map((feed) => {
+        // Same call as the /api/feeds/<id>/rss proxy, so the pinned llm chain is honoured
+        const query = feedQueryParams(feed);
+        query.set("feedId", feed.id);
+        return {
+            key: `feed:${feed.id}`,
+            url: feed.url,
+            feedId: feed.id,
+            query,
+            intervalMinutes: feed.refreshIntervalMinutes ?? defaultInterval,
+        };
+    });
+
+    const savedUrls = new Set(jobs.map((job) => job.url));
+    for (const entry of Object.values(tracked)) {
+        if (savedUrls.has(entry.url)) continue;
+        if (now - new Date(entry.lastRequestedISO).getTime() > idleAfterMs) {
+            idle++;
+            continue;
+        }
+        jobs.push({
+            key: `url:${entry.url}`,
+            url: entry.url,
+            query: new URLSearchParams({ url: entry.url, ...entry.params }),
+            intervalMinutes: defaultInterval,
+        });
+    }
+
+    return { jobs, idle };
+}
+
+function isDue(job: RefreshJob, state: RefreshState | undefined, now: number): boolean {
+    if (!state) return true;
+    return now - new Date(state.lastRefreshedISO).getTime() >= job.intervalMinutes * 60_000;
+}
+
+/** `force` ignores intervals and treats every job as due (the per-run cap still applies) */
+export async function planRefresh(force: boolean): Promise<RefreshPlan> {
+    const [{ jobs, idle }, state] = await Promise.all([collectRefreshJobs(), loadRefreshState()]);
+    const now = Date.now();
+
+    const due = jobs
+        .filter((job) => force || isDue(job, state[job.key], now))
+        // Never-refreshed first, then the most overdue
+        .sort((a, b) => {
+            const lastA = state[a.key] ? new Date(state[a.key].lastRefreshedISO).getTime() : 0;
+            const lastB = state[b.key] ? new Date(state[b.key].lastRefreshedISO).getTime() : 0;
+            return lastA - lastB;
+        });
+
+    return { jobs, due, selected: due.slice(0, MAX_FEEDS_PER_RUN()), idle };
+}
+
+// --- Execution ---
+
+async function refreshJob(origin: string, job: RefreshJob): Promise<RefreshResult> {
+    // Invalidates this page's cache entries only; an unchanged page still skips
+    // the LLM through its content fingerprint
+    const query = new URLSearchParams(job.query);
+    query.set("refresh", "true");
+    const startTime = Date.now();
+
+    try {
+        const res = await fetch(`${origin}/api/rss?${query}`, {
+            headers: { [INTERNAL_REQUEST_HEADER]: "1" },
+            signal: AbortSignal.timeout(JOB_TIMEOUT_MS),
+        });
+        // Drain the body so the connection is released
+        await res.arrayBuffer();
+        const articleCount = parseInt(res.headers.get("x-article-count") || "", 10);
+
+        return {
+            key: job.key,
+            url: job.url,
+            feedId: job.feedId,
+            ok: res.ok,
+            status: res.status,
+            durationMs: Date.now() - startTime,
+            articleCount: isNaN(articleCount) ? undefined : articleCount,
+            error: res.ok ? undefined : `HTTP ${res.status}`,
+        };
+    } catch (e) {
+        return {
+            key: job.key,
+            url: job.url,
+            feedId: job.feedId,
+            ok: false,
+            status: 0,
+            durationMs: Date.now() - startTime,
+            error: e instanceof Error ? e.message : String(e),
+        };
+    }
+}
+
+/**
+ * Refresh due jobs (up to the per-run cap, and only as many as RUN_BUDGET_MS
+ * leaves time for), saving each job's state as it finishes, then the run history
+ */
+export async function runRefresh(origin: string, plan: RefreshPlan): Promise<CronRun> {
+    const startedAt = new Date();
+    const deadline = startedAt.getTime() + RUN_BUDGET_MS;
+    const concurrency = CONCURRENCY();
+    console.log(`[Cron] ${plan.selected.length}/${plan.due.length} due of ${plan.jobs.length} feeds (${plan.idle} idle), concurrency ${concurrency}`);
+
+    const outcomes = await mapWithConcurrency(plan.selected, concurrency, async (job) => {
+        // Left for the next run, which picks the most overdue jobs first
+        if (Date.now() + JOB_TIMEOUT_MS > deadline) return null;
+        const result = await refreshJob(origin, job);
+        // Saved per job: a run stopped by the platform keeps what it finished
+        await saveRefreshState({
+            [result.key]: {
+                lastRefreshedISO: new Date().toISOString(),
+                lastOk: result.ok,
+                lastStatus: result.status,
+                lastError: result.error,
+            },
+        });
+        return result;
+    });
+    const results = outcomes.filter((result): result is RefreshResult => result !== null);
+
+    const finishedAt = new Date();
+    const run: CronRun = {
+        startedAtISO: startedAt.toISOString(),
+        finishedAtISO: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        totalJobs: plan.jobs.length,
+        dueJobs: plan.due.length,
+        refreshed: results.filter((r) => r.ok).length,
+        failed: results.filter((r) => !r.ok).length,
+        deferred: plan.due.length - results.length,
+        results,
+    };
+    await appendCronRun(run);
+    console.log(`[Cron] Done in ${run.durationMs}ms: ${run.refreshed} refreshed, ${run.failed} failed, ${run.deferred} deferred`);
+
+    return run;
+}
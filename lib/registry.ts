@@ -0,0 +1,90 @@
+// lib/registry.ts
+// Retention and manual edits for the article date registry.
+//
+// Each feed URL's registry used to grow forever. `enforceRetention` applies a
+// retention policy (max entries per URL, max age by firstSeenISO) from the
+// environment, never dropping items that are on the page right now — a pruned
+// item that is still listed would come back as a "new" article. The admin
+// /api/registry endpoints use the helpers here to fix a frozen bad date.
+
+import { type UrlRegistry } from "@/lib/storage";
+
+// --- Types ---
+
+export interface RetentionPolicy {
+    maxEntries: number;    // 0 = unlimited
+    maxAgeDays: number;    // 0 = unlimited
+}
+
+// --- Settings ---
+
+function envInt(name: string, fallback: number): number {
+    const value = parseInt(process.env[name] || "", 10);
+    return isNaN(value) || value < 0 ? fallback : value;
+}
+
+export function retentionPolicy(): RetentionPolicy {
+    return {
+        maxEntries: envInt("REGISTRY_MAX_ENTRIES", 1000),
+        maxAgeDays: envInt("REGISTRY_MAX_AGE_DAYS", 0),
+    };
+}
+
+// --- Retention ---
+
+/**
+ * Remove entries older than `maxAgeDays`, then the oldest (by firstSeenISO)
+ * beyond `maxEntries`. Guids in `keep` are never removed. Mutates `registry`
+ * and returns the removed guids.
+ */
+export function applyRetention(
+    registry: UrlRegistry,
+    policy: RetentionPolicy,
+    keep: Iterable<string> = []
+): string[] {
+    const kept = new Set(keep);
+    const removed: string[] = [];
+    const remove = (guid: string) => {
+        delete registry[guid];
+        removed.push(guid);
+    };
+
+    if (policy.maxAgeDays > 0) {
+        const cutoff = Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000;
+        for (const record of Object.values(registry)) {
+            if (!kept.has(record.guid) && new Date(record.firstSeenISO).getTime() < cutoff) {
+                remove(record.guid);
+            }
+        }
+    }
+
+    const records = Object.values(registry);
+    if (policy.maxEntries > 0 && records.length > policy.maxEntries) {
+        const oldestFirst = records
+            .filter((record) => !kept.has(record.guid))
+            .sort((a, b) => new Date(a.firstSeenISO).getTime() - new Date(b.firstSeenISO).getTime());
+        for (const record of oldestFirst.slice(0, records.length - policy.maxEntries)) {
+            remove(record.guid);
+        }
+    }
+
+    return removed;
+}
+
+/**
+ * Guids that were on the page at the last regeneration (every item of a run
+ * shares one lastSeenISO). Used to protect them when pruning outside a request.
+ */
+export function currentGuids(registry: UrlRegistry): string[] {
+    const records = Object.values(registry).filter((record) => record.lastSeenISO);
+    const latest = records.reduce((max, record) => (record.lastSeenISO! > max ? record.lastSeenISO! : max), "");
+    return records.filter((record) => record.lastSeenISO === latest).map((record) => record.guid);
+}
+
+// --- Manual edits ---
+
+/** Parse an overriding pubDate (anything Date.parse accepts) into RFC 822, or null */
+export function parseOverrideDate(value: unknown): string | null {
+    const time = typeof value === "string" ? Date.parse(value) : NaN;
+    return isNaN(time) ? null : new Date(time).toUTCString();
+}
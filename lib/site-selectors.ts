@@ -1,4 +1,4 @@
-import { loadGlobalSiteConfigs } from "@/lib/storage";
+import { loadGlobalSiteConfigs, type SiteConfigEntry } from "@/lib/storage";
 import { DEFAULT_SITE_CONFIGS } from "@/lib/default-configs";
 
 export interface SiteSelectors {
@@ -8,9 +8,9 @@ export interface SiteSelectors {
 }
 
 /**
- * Get selectors based on the URL's hostname, merging global configs from DB with default fallbacks.
+ * Get the full per-domain config for a URL's hostname, preferring global configs from DB over defaults.
  */
-export async function getSiteSelectors(url: string): Promise<SiteSelectors> {
+export async function getSiteConfig(url: string): Promise<SiteConfigEntry> {
     try {
         const urlObj = new URL(url);
         let hostname = urlObj.hostname;
@@ -33,6 +33,14 @@ export async function getSiteSelectors(url: string): Promise<SiteSelectors> {
     }
 }
 
+/**
+ * Get selectors based on the URL's hostname, merging global configs from DB with default fallbacks.
+ */
+export async function getSiteSelectors(url: string): Promise<SiteSelectors> {
+    const { targetSelector, removeSelector, waitForSelector } = await getSiteConfig(url);
+    return { targetSelector, removeSelector, waitForSelector };
+}
+
 /**
  * Merge API provided selectors with predefined ones and defaults.
  * Priority: API Params > DB Config > Default Config > Default Fallback String
@@ -6,11 +6,21 @@
 //
 // This fixes the critical bug where the date registry was stored on the
 // ephemeral Vercel Serverless Function filesystem and lost on every cold start,
-// causing "phantom new articles" in RSS readers.
+// causing "phantom new articles" in RSS readers. Registry writes are per guid
+// (set-if-absent), so two requests regenerating the same page at once can't
+// overwrite each other's first-seen dates and cause the same symptom.
 
 import { createHash } from "crypto";
-import { readFile, writeFile, mkdir } from "fs/promises";
+import { readFile, writeFile, mkdir, open, rename, stat, unlink } from "fs/promises";
 import { join } from "path";
+import { type ExtractionRecipe } from "@/lib/recipes";
+import { type CanonicalUrlRules } from "@/lib/canonical-url";
+import { type DateFallback } from "@/lib/dates";
+import { type ChunkStats } from "@/lib/chunking";
+import { type PaginationConfig } from "@/lib/pagination";
+import { type ExtraField, type SiteExtraction } from "@/lib/extraction-config";
+import { type RSSFeedData, type RSSItem } from "@/lib/xml-builder";
+import { applyRetention, retentionPolicy } from "@/lib/registry";
 
 // --- Types ---
 
@@ -19,26 +29,255 @@ export interface ArticleRecord {
     pubDate: string;       // RFC 822 date string
     firstSeenISO: string;  // ISO 8601 timestamp when we first saw this article
     title?: string;
+    lastSeenISO?: string;  // last time the article was on the page (same value for every item of a run)
+    item?: RSSItem;        // latest normalized item without `content`, for archive=true once it leaves the page
+    dateFallback?: DateFallback; // why the extracted date was not used as-is (see lib/dates)
+    rawPubDate?: string;   // the extracted value behind a fallback
 }
 
 export interface UrlRegistry {
     [guid: string]: ArticleRecord;
 }
 
-export type GlobalSiteConfig = Record<string, {
+export interface SiteConfigEntry {
     targetSelector?: string;
     removeSelector?: string;
     waitForSelector?: string;
-}>;
+    providerChain?: string[];  // ordered markdown providers for source=auto
+    recipe?: ExtractionRecipe; // deterministic selector-based extraction (skips the LLM)
+    canonicalUrl?: CanonicalUrlRules; // article URL canonicalization for registry keys
+    pagination?: PaginationConfig; // default page count and page URL pattern for pages=N
+    llmChain?: string[];       // ordered LLM backends ("name" or "name:model") for extraction
+    instructions?: string;     // free-text extraction instructions appended to the LLM prompt
+    extraFields?: ExtraField[]; // extra item fields the LLM should extract (author, image, readingTime)
+}
+
+export type GlobalSiteConfig = Record<string, SiteConfigEntry>;
+
+// Options an LLM extraction depends on besides the page itself. Each combination
+// has its own snapshot, so readers of one page with different options don't
+// overwrite each other's.
+export interface ExtractionParams {
+    limit: number;
+    fulltext: boolean;
+    llmChain: string[];               // chain the extraction was requested with
+    siteExtraction: SiteExtraction;   // site instructions / extra fields
+}
+
+// Last LLM extraction for a feed URL and ExtractionParams, with a hash of the normalized
+// page markdown. When the page is unchanged we reuse `feedData` instead of calling the model again.
+export interface ExtractionSnapshot extends ExtractionParams {
+    contentHash: string;
+    modelUsed: string;         // "backend:model"
+    feedData: RSSFeedData;
+    extractedAtISO: string;    // when the model last ran
+    rejected: number;          // items dropped for schema errors
+    chunks?: ChunkStats;       // set when the extraction ran with chunked=true
+}
+
+// Fingerprint comparisons against one snapshot, kept apart from it so a HIT
+// only bumps a counter instead of rewriting the stored feed data.
+export interface ExtractionStats {
+    hits: number;
+    misses: number;
+    lastCheckedISO?: string;   // when the hash was last compared
+    lastResult?: "HIT" | "MISS";
+}
+
+// Saved feed: a short, stable id mapped to /api/rss parameters. Subscribers use
+// /api/feeds/<id>/rss, so the parameters can be edited without breaking their URL.
+export interface FeedDefinition {
+    id: string;
+    name: string;
+    url: string;                      // target webpage
+    params: Record<string, string>;   // other /api/rss query params (see FEED_PARAM_NAMES)
+    refreshIntervalMinutes?: number;  // background refresh interval; default CRON_REFRESH_INTERVAL_MINUTES
+    createdAtISO: string;
+    updatedAtISO: string;
+}
+
+export type FeedDefinitions = Record<string, FeedDefinition>;
+
+// Every feed URL /api/rss has served, with the parameters of the latest request.
+// Used for OPML export of feeds that were never saved as definitions.
+export interface TrackedFeed {
+    url: string;
+    params: Record<string, string>;   // last request's /api/rss params (excluding url/refresh)
+    firstTrackedISO: string;
+    lastRequestedISO: string;         // last write: new params, or at most daily while requested
+}
+
+export type TrackedFeeds = Record<string, TrackedFeed>;
+
+// Background refresher (/api/cron/refresh). Jobs are keyed "feed:<id>" for
+// saved feeds and "url:<url>" for tracked pages without a saved feed.
+export interface RefreshResult {
+    key: string;
+    url: string;
+    feedId?: string;
+    ok: boolean;
+    status: number;            // HTTP status from /api/rss, 0 when the request itself failed
+    durationMs: number;
+    articleCount?: number;
+    error?: string;
+}
+
+export interface RefreshState {
+    lastRefreshedISO: string;
+    lastOk: boolean;
+    lastStatus: number;
+    lastError?: string;
+}
+
+export interface CronRun {
+    startedAtISO: string;
+    finishedAtISO: string;
+    durationMs: number;
+    totalJobs: number;
+    dueJobs: number;
+    refreshed: number;
+    failed: number;
+    deferred: number;          // due but over the per-run cap; picked up next run
+    results: RefreshResult[];
+}
+
+// WebSub subscription to one of our feed URLs (topic). `targetUrl` is the page
+// the topic is generated from, so new articles for that page reach every topic.
+export interface WebSubSubscription {
+    id: string;
+    topic: string;
+    callback: string;
+    targetUrl: string;
+    secret?: string;           // HMAC key for X-Hub-Signature
+    leaseSeconds: number;
+    createdAtISO: string;
+    expiresAtISO: string;
+    lastDeliveryISO?: string;
+    lastDeliveryStatus?: number;   // callback HTTP status, 0 when the request failed
+}
+
+export type WebSubSubscriptions = Record<string, WebSubSubscription>;
+
+// Outgoing webhook fired when new articles are recorded for a page. Targets
+// either a saved feed (`feedId`, follows URL edits) or a target page (`url`).
+export interface WebhookRegistration {
+    id: string;
+    name: string;
+    endpoint: string;                         // URL the payload is POSTed to
+    feedId?: string;
+    url?: string;
+    secret: string;                           // HMAC-SHA256 key for X-Webhook-Signature
+    format: "json" | "slack" | "discord";
+    template?: string;                        // message text for slack/discord, with {{placeholders}}
+    enabled: boolean;
+    createdAtISO: string;
+    updatedAtISO: string;
+}
+
+export type Webhooks = Record<string, WebhookRegistration>;
+
+export interface WebhookAttempt {
+    atISO: string;
+    status: number;            // endpoint HTTP status, 0 when the request failed
+    durationMs: number;
+    error?: string;
+}
+
+export interface WebhookDelivery {
+    id: string;
+    webhookId: string;
+    event: "new_articles";
+    targetUrl: string;
+    itemCount: number;
+    ok: boolean;
+    attempts: WebhookAttempt[];
+    createdAtISO: string;
+}
+
+// Full text of one article page (fulltext=true), keyed by article URL. A
+// successful fetch is kept for good; a failure is retried after a while.
+export interface ArticleContentRecord {
+    url: string;
+    content?: string;          // extracted main body as HTML
+    provider?: string;         // markdown provider that fetched it
+    error?: string;            // why the last fetch failed
+    fetchedAtISO: string;
+}
+
+export interface FetchReport {
+    fetchedAtISO: string;
+    provider: string | null;   // provider that succeeded, null if the whole chain failed
+    chain: string[];
+    attempts: Array<{ provider: string; ok: boolean; durationMs: number; error?: string }>;
+}
+
+// LLM tokens spent for one feed URL with one model on one UTC day
+export interface UsageCounts {
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+}
+
+// One calendar month (UTC) of usage: day ("YYYY-MM-DD") → feed URL → model ("backend:model")
+export type MonthlyUsage = Record<string, Record<string, Record<string, UsageCounts>>>;
 
 // --- Helpers ---
 
+function urlHash(url: string): string {
+    return createHash("sha256").update(url).digest("hex").slice(0, 16);
+}
+
+// Redis keeps each URL's registry in two hashes keyed by guid:
+//   <key>:dates — guid, pubDate, firstSeenISO, title; written with HSETNX so the
+//                 first request to see an article fixes its date for good
+//   <key>:seen  — lastSeenISO and the item snapshot; overwritten on every run
+// <key> itself is the legacy single-JSON-blob registry, migrated on first read.
 function registryKey(url: string): string {
-    const hash = createHash("sha256").update(url).digest("hex").slice(0, 16);
-    return `rss-registry:${hash}`;
+    return `rss-registry:${urlHash(url)}`;
+}
+
+type DateRecord = Pick<ArticleRecord, "guid" | "pubDate" | "firstSeenISO" | "title" | "dateFallback" | "rawPubDate">;
+type SeenRecord = Pick<ArticleRecord, "lastSeenISO" | "item">;
+
+function splitRecord(record: ArticleRecord): { date: DateRecord; seen: SeenRecord } {
+    const { lastSeenISO, item, ...date } = record;
+    return { date, seen: { lastSeenISO, item } };
+}
+
+function extractionKey(url: string, variant: string): string {
+    return `rss-extraction:${urlHash(url)}:${variant}`;
+}
+
+// One hash per feed URL whose fields are "<variant>:<stat>", so counters add with HINCRBY
+function extractionStatsKey(url: string): string {
+    return `rss-extraction-stats:${urlHash(url)}`;
+}
+
+function fetchReportKey(url: string): string {
+    return `rss-fetch-report:${urlHash(url)}`;
+}
+
+function articleContentKey(url: string): string {
+    return `rss-article:${urlHash(url)}`;
+}
+
+// Redis keeps a month of usage in three hashes (<key>:calls, :prompt, :completion)
+// whose fields are JSON [day, url, model], so concurrent calls add with HINCRBY
+function usageKey(month: string): string {
+    return `rss-usage:${month}`;
 }
 
 const GLOBAL_CONFIG_KEY = "rss-global-site-configs";
+const FEED_DEFINITIONS_KEY = "rss-feed-definitions";
+const TRACKED_FEEDS_KEY = "rss-tracked-feeds";
+const TRACKED_FEED_REWRITE_MS = 24 * 60 * 60 * 1000;   // lastRequestedISO is refreshed at most this often
+const REFRESH_STATE_KEY = "rss-refresh-state";
+const CRON_RUNS_KEY = "rss-cron-runs";
+const MAX_CRON_RUNS = 20;
+const WEBSUB_KEY = "rss-websub-subscriptions";
+const WEBHOOKS_KEY = "rss-webhooks";
+const WEBHOOK_DELIVERIES_KEY = "rss-webhook-deliveries";
+const MAX_WEBHOOK_DELIVERIES = 200;
 
 // --- Upstash Redis backend ---
 
@@ -77,8 +316,7 @@ const REGISTRY_DIR = process.env.VERCEL
     : join(process.cwd(), ".rss-cache");
 
 function fsPath(url: string): string {
-    const hash = createHash("sha256").update(url).digest("hex").slice(0, 16);
-    return join(REGISTRY_DIR, `${hash}.json`);
+    return join(REGISTRY_DIR, `${urlHash(url)}.json`);
 }
 
 async function fsLoad(url: string): Promise<UrlRegistry> {
@@ -90,16 +328,74 @@ async function fsLoad(url: string): Promise<UrlRegistry> {
     }
 }
 
-async function fsSave(url: string, registry: UrlRegistry): Promise<void> {
+// Registry writes are read-modify-write of one file, so concurrent requests
+// (a reader and the merge route, or two serverless invocations sharing /tmp)
+// serialise on an exclusive lock file next to it.
+const LOCK_TIMEOUT_MS = 5_000;
+const LOCK_STALE_MS = 30_000;   // a crashed writer's lock is taken over after this
+
+async function withFileLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
+    const lockPath = `${path}.lock`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    for (;;) {
+        try {
+            await (await open(lockPath, "wx")).close();
+            break;
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+            const lock = await stat(lockPath).catch(() => null);
+            if (lock && Date.now() - lock.mtimeMs > LOCK_STALE_MS) {
+                await unlink(lockPath).catch(() => {});
+                continue;
+            }
+            if (Date.now() > deadline) {
+                throw new Error(`Timed out waiting for registry lock ${lockPath}`);
+            }
+            await new Promise((resolve) => setTimeout(resolve, 20 + Math.random() * 80));
+        }
+    }
+
     try {
-        await mkdir(REGISTRY_DIR, { recursive: true });
-        await writeFile(fsPath(url), JSON.stringify(registry, null, 2), "utf-8");
-    } catch (e) {
-        // Silently fail if filesystem is truly unavailable — better than crashing
-        console.warn("[Storage] File-system write failed (non-critical):", e);
+        return await fn();
+    } finally {
+        await unlink(lockPath).catch(() => {});
     }
 }
 
+/** Apply `mutate` to the URL's registry file under the lock; the file is replaced atomically */
+async function fsUpdateRegistry<T>(url: string, mutate: (registry: UrlRegistry) => T): Promise<T> {
+    await mkdir(REGISTRY_DIR, { recursive: true });
+    const path = fsPath(url);
+    return withFileLock(path, async () => {
+        const registry = await fsLoad(url);
+        const result = mutate(registry);
+        const tmpPath = `${path}.${process.pid}.tmp`;
+        await writeFile(tmpPath, JSON.stringify(registry, null, 2), "utf-8");
+        await rename(tmpPath, path);
+        return result;
+    });
+}
+
+/** Apply `mutate` to a JSON document in REGISTRY_DIR under the lock; the file is replaced atomically */
+async function fsUpdateDocument<T, R = void>(fileName: string, empty: T, mutate: (value: T) => R): Promise<R> {
+    await mkdir(REGISTRY_DIR, { recursive: true });
+    const path = join(REGISTRY_DIR, fileName);
+    return withFileLock(path, async () => {
+        let value = empty;
+        try {
+            value = JSON.parse(await readFile(path, "utf-8")) as T;
+        } catch {
+            // Missing or unreadable: start from `empty`
+        }
+        const result = mutate(value);
+        const tmpPath = `${path}.${process.pid}.tmp`;
+        await writeFile(tmpPath, JSON.stringify(value, null, 2), "utf-8");
+        await rename(tmpPath, path);
+        return result;
+    });
+}
+
 function fsGlobalConfigPath(): string {
     return join(REGISTRY_DIR, "global-configs.json");
 }
@@ -122,14 +418,196 @@ async function fsSaveGlobalConfigs(configs: GlobalSiteConfig): Promise<void> {
     }
 }
 
+// --- Generic JSON documents (Redis key ↔ file in REGISTRY_DIR) ---
+
+async function loadDocument<T>(key: string, fileName: string): Promise<T | null> {
+    const redis = await getRedis();
+    if (redis) {
+        try {
+            return (await redis.get<T>(key)) ?? null;
+        } catch (e) {
+            console.warn(`[Storage] Redis read of ${key} failed, falling back to FS:`, e);
+        }
+    }
+    try {
+        const data = await readFile(join(REGISTRY_DIR, fileName), "utf-8");
+        return JSON.parse(data) as T;
+    } catch {
+        return null;
+    }
+}
+
+async function saveDocument<T>(key: string, fileName: string, value: T): Promise<void> {
+    const redis = await getRedis();
+    if (redis) {
+        try {
+            await redis.set(key, value);
+            return;
+        } catch (e) {
+            console.warn(`[Storage] Redis write of ${key} failed, falling back to FS:`, e);
+        }
+    }
+    try {
+        await mkdir(REGISTRY_DIR, { recursive: true });
+        await writeFile(join(REGISTRY_DIR, fileName), JSON.stringify(value, null, 2), "utf-8");
+    } catch (e) {
+        console.warn("[Storage] File-system write failed (non-critical):", e);
+    }
+}
+
+// --- Keyed collections (one entry per id) ---
+// Collections that several requests write at once are written entry by entry:
+// HSET / HDEL on the Redis hash `<key>:entries`, or a locked read-modify-write
+// of the file, so concurrent writers can't drop each other's entries. The bare
+// `<key>` is the old single-JSON-blob format, moved into the hash on first use.
+
+const migratedCollections = new Set<string>();
+
+/** The collection's hash key, after moving a legacy blob (if any) into it */
+async function redisCollectionKey(redis: import("@upstash/redis").Redis, key: string): Promise<string> {
+    const hashKey = `${key}:entries`;
+    if (migratedCollections.has(key)) return hashKey;
+
+    const legacy = await redis.get<Record<string, unknown>>(key);
+    if (legacy && typeof legacy === "object" && Object.keys(legacy).length > 0) {
+        const pipeline = redis.pipeline();
+        for (const [id, value] of Object.entries(legacy)) {
+            pipeline.hsetnx(hashKey, id, value);
+        }
+        pipeline.del(key);
+        await pipeline.exec();
+        console.log(`[Storage] Migrated ${Object.keys(legacy).length} entries of ${key} to a per-entry hash`);
+    }
+    migratedCollections.add(key);
+    return hashKey;
+}
+
+async function fsLoadCollection<T>(fileName: string): Promise<Record<string, T>> {
+    try {
+        return JSON.parse(await readFile(join(REGISTRY_DIR, fileName), "utf-8")) as Record<string, T>;
+    } catch {
+        return {};
+    }
+}
+
+async function loadCollection<T>(key: string, fileName: string): Promise<Record<string, T>> {
+    const redis = await getRedis();
+    if (redis) {
+        try {
+            return (await redis.hgetall<Record<string, T>>(await redisCollectionKey(redis, key))) ?? {};
+        } catch (e) {
+            console.warn(`[Storage] Redis read of ${key} failed, falling back to FS:`, e);
+        }
+    }
+    return fsLoadCollection<T>(fileName);
+}
+
+async function loadCollectionEntry<T>(key: string, fileName: string, id: string): Promise<T | null> {
+    const redis = await getRedis();
+    if (redis) {
+        try {
+            return (await redis.hget<T>(await redisCollectionKey(redis, key), id)) ?? null;
+        } catch (e) {
+            console.warn(`[Storage] Redis read of ${key} failed, falling back to FS:`, e);
+        }
+    }
+    const entries = await fsLoadCollection<T>(fileName);
+    return Object.hasOwn(entries, id) ? entries[id] : null;
+}
+
+async function setCollectionEntries<T>(key: string, fileName: string, entries: Record<string, T>): Promise<void> {
+    if (Object.keys(entries).length === 0) return;
+
+    const redis = await getRedis();
+    if (redis) {
+        try {
+            await redis.hset(await redisCollectionKey(redis, key), entries);
+            return;
+        } catch (e) {
+            console.warn(`[Storage] Redis write of ${key} failed, falling back to FS:`, e);
+        }
+    }
+    try {
+        await fsUpdateDocument<Record<string, T>>(fileName, {}, (stored) => {
+            Object.assign(stored, entries);
+        });
+    } catch (e) {
+        console.warn("[Storage] File-system write failed (non-critical):", e);
+    }
+}
+
+/** Returns how many of `ids` existed */
+async function deleteCollectionEntries(key: string, fileName: string, ids: string[]): Promise<number> {
+    if (ids.length === 0) return 0;
+
+    const redis = await getRedis();
+    if (redis) {
+        try {
+            return await redis.hdel(await redisCollectionKey(redis, key), ...ids);
+        } catch (e) {
+            console.warn(`[Storage] Redis write of ${key} failed, falling back to FS:`, e);
+        }
+    }
+    return fsUpdateDocument<Record<string, unknown>, number>(fileName, {}, (stored) => {
+        const existing = ids.filter((id) => Object.hasOwn(stored, id));
+        for (const id of existing) delete stored[id];
+        return existing.length;
+    });
+}
+
 // --- Public API ---
 
+// --- Article date registry ---
+// pubDate and firstSeenISO are only written when an article is first claimed
+// (set-if-absent) or by an explicit admin override, never by a read-modify-write
+// of the whole registry, so concurrent requests can't overwrite each other's dates.
+
+/** Copy a legacy single-blob registry into the hashes (set-if-absent), then drop the blob */
+async function migrateLegacyRegistry(
+    redis: import("@upstash/redis").Redis,
+    url: string,
+    legacy: UrlRegistry
+): Promise<void> {
+    const key = registryKey(url);
+    const pipeline = redis.pipeline();
+    for (const record of Object.values(legacy)) {
+        const { date, seen } = splitRecord(record);
+        pipeline.hsetnx(`${key}:dates`, record.guid, date);
+        if (seen.lastSeenISO || seen.item) {
+            pipeline.hsetnx(`${key}:seen`, record.guid, seen);
+        }
+    }
+    pipeline.del(key);
+    await pipeline.exec();
+    console.log(`[Storage] Migrated ${Object.keys(legacy).length} registry entries for ${url} to per-guid hashes`);
+}
+
+async function redisLoadRegistry(redis: import("@upstash/redis").Redis, url: string): Promise<UrlRegistry> {
+    const key = registryKey(url);
+    const [dates, seen] = await Promise.all([
+        redis.hgetall<Record<string, DateRecord>>(`${key}:dates`),
+        redis.hgetall<Record<string, SeenRecord>>(`${key}:seen`),
+    ]);
+
+    if (!dates) {
+        const legacy = await redis.get<UrlRegistry>(key);
+        if (!legacy || Object.keys(legacy).length === 0) return {};
+        await migrateLegacyRegistry(redis, url, legacy);
+        return redisLoadRegistry(redis, url);
+    }
+
+    const registry: UrlRegistry = {};
+    for (const [guid, date] of Object.entries(dates)) {
+        registry[guid] = { ...date, ...seen?.[guid] };
+    }
+    return registry;
+}
+
 export async function loadRegistry(url: string): Promise<UrlRegistry> {
     const redis = await getRedis();
     if (redis) {
         try {
-            const data = await redis.get<UrlRegistry>(registryKey(url));
-            return data ?? {};
+            return await redisLoadRegistry(redis, url);
         } catch (e) {
             console.warn("[Storage] Redis read failed, falling back to FS:", e);
             return fsLoad(url);
@@ -138,18 +616,150 @@ export async function loadRegistry(url: string): Promise<UrlRegistry> {
     return fsLoad(url);
 }
 
-export async function saveRegistry(url: string, registry: UrlRegistry): Promise<void> {
+/**
+ * Record articles that are not in the registry yet. A guid another request
+ * recorded first keeps that request's record. Returns the guids this call
+ * recorded and the stored record of every requested guid.
+ */
+export async function claimArticles(
+    url: string,
+    records: ArticleRecord[]
+): Promise<{ claimed: string[]; records: UrlRegistry }> {
+    if (records.length === 0) return { claimed: [], records: {} };
+
+    const redis = await getRedis();
+    if (redis) {
+        try {
+            const key = registryKey(url);
+            const claimPipeline = redis.pipeline();
+            for (const record of records) {
+                claimPipeline.hsetnx(`${key}:dates`, record.guid, splitRecord(record).date);
+            }
+            const results = await claimPipeline.exec<Array<0 | 1>>();
+            const claimed = records.filter((_, index) => results[index] === 1);
+
+            if (claimed.length > 0) {
+                await redis.hset(`${key}:seen`, Object.fromEntries(claimed.map((record) => [record.guid, splitRecord(record).seen])));
+            }
+
+            // Losers adopt the winner's date
+            const lost = records.filter((_, index) => results[index] !== 1);
+            const stored: UrlRegistry = Object.fromEntries(claimed.map((record) => [record.guid, record]));
+            if (lost.length > 0) {
+                const winners = await redis.hmget<Record<string, DateRecord>>(`${key}:dates`, ...lost.map((record) => record.guid));
+                for (const record of lost) {
+                    stored[record.guid] = { ...record, ...winners?.[record.guid] };
+                }
+            }
+            return { claimed: claimed.map((record) => record.guid), records: stored };
+        } catch (e) {
+            console.warn("[Storage] Redis write failed, falling back to FS:", e);
+        }
+    }
+
+    try {
+        return await fsUpdateRegistry(url, (registry) => {
+            const claimed: string[] = [];
+            const stored: UrlRegistry = {};
+            for (const record of records) {
+                if (!registry[record.guid]) {
+                    registry[record.guid] = record;
+                    claimed.push(record.guid);
+                }
+                stored[record.guid] = registry[record.guid];
+            }
+            return { claimed, records: stored };
+        });
+    } catch (e) {
+        // Filesystem unavailable: behave as if every article was new — better than crashing
+        console.warn("[Storage] File-system write failed (non-critical):", e);
+        return { claimed: records.map((record) => record.guid), records: Object.fromEntries(records.map((r) => [r.guid, r])) };
+    }
+}
+
+/** Refresh lastSeenISO / item snapshots of known articles; dates are untouched */
+export async function markArticlesSeen(url: string, seen: Record<string, SeenRecord>): Promise<void> {
+    if (Object.keys(seen).length === 0) return;
+
     const redis = await getRedis();
     if (redis) {
         try {
-            // Store indefinitely (no TTL) — article history should persist forever
-            await redis.set(registryKey(url), registry);
+            await redis.hset(`${registryKey(url)}:seen`, seen);
             return;
         } catch (e) {
             console.warn("[Storage] Redis write failed, falling back to FS:", e);
         }
     }
-    return fsSave(url, registry);
+
+    try {
+        await fsUpdateRegistry(url, (registry) => {
+            for (const [guid, update] of Object.entries(seen)) {
+                if (registry[guid]) registry[guid] = { ...registry[guid], ...update };
+            }
+        });
+    } catch (e) {
+        console.warn("[Storage] File-system write failed (non-critical):", e);
+    }
+}
+
+/** Admin override of one article's pubDate; null when the guid is unknown */
+export async function setArticlePubDate(url: string, guid: string, pubDate: string): Promise<ArticleRecord | null> {
+    const redis = await getRedis();
+    if (redis) {
+        const record = (await redisLoadRegistry(redis, url))[guid]; // also migrates a legacy blob
+        if (!record) return null;
+        const date = { ...splitRecord(record).date, pubDate, dateFallback: undefined };
+        await redis.hset(`${registryKey(url)}:dates`, { [guid]: date });
+        return { ...record, ...date };
+    }
+
+    return fsUpdateRegistry(url, (registry) => {
+        if (!registry[guid]) return null;
+        registry[guid] = { ...registry[guid], pubDate, dateFallback: undefined };
+        return registry[guid];
+    });
+}
+
+export async function deleteArticles(url: string, guids: string[]): Promise<void> {
+    if (guids.length === 0) return;
+
+    const redis = await getRedis();
+    if (redis) {
+        const key = registryKey(url);
+        await redis.pipeline().hdel(`${key}:dates`, ...guids).hdel(`${key}:seen`, ...guids).exec();
+        return;
+    }
+
+    await fsUpdateRegistry(url, (registry) => {
+        for (const guid of guids) delete registry[guid];
+    });
+}
+
+export async function resetRegistry(url: string): Promise<void> {
+    const redis = await getRedis();
+    if (redis) {
+        const key = registryKey(url);
+        await redis.del(key, `${key}:dates`, `${key}:seen`);
+        return;
+    }
+
+    await fsUpdateRegistry(url, (registry) => {
+        for (const guid of Object.keys(registry)) delete registry[guid];
+    });
+}
+
+/**
+ * Apply the retention policy (REGISTRY_MAX_ENTRIES / REGISTRY_MAX_AGE_DAYS) to
+ * a loaded registry, deleting the pruned guids from storage. `keep` lists guids
+ * on the page right now; they are never pruned. Mutates `registry`.
+ */
+export async function enforceRetention(url: string, registry: UrlRegistry, keep: Iterable<string> = []): Promise<string[]> {
+    const pruned = applyRetention(registry, retentionPolicy(), keep);
+    if (pruned.length > 0) {
+        await deleteArticles(url, pruned);
+        console.log(`[Storage] Retention pruned ${pruned.length} registry entries for ${url}`);
+    }
+    return pruned;
 }
 
 export async function loadGlobalSiteConfigs(): Promise<GlobalSiteConfig> {
@@ -178,3 +788,352 @@ export async function saveGlobalSiteConfigs(configs: GlobalSiteConfig): Promise<
     }
     return fsSaveGlobalConfigs(configs);
 }
+
+export async function loadFetchReport(url: string): Promise<FetchReport | null> {
+    return loadDocument<FetchReport>(fetchReportKey(url), `${urlHash(url)}.fetch.json`);
+}
+
+export async function saveFetchReport(url: string, report: FetchReport): Promise<void> {
+    return saveDocument(fetchReportKey(url), `${urlHash(url)}.fetch.json`, report);
+}
+
+/** Short hash of the options an extraction depends on; names its snapshot and stats */
+export function extractionVariant(params: ExtractionParams): string {
+    const { limit, fulltext, llmChain, siteExtraction } = params;
+    return createHash("sha256")
+        .update(JSON.stringify([limit, fulltext, llmChain, siteExtraction]))
+        .digest("hex")
+        .slice(0, 16);
+}
+
+export async function loadExtractionSnapshot(url: string, variant: string): Promise<ExtractionSnapshot | null> {
+    return loadDocument<ExtractionSnapshot>(extractionKey(url, variant), `${urlHash(url)}.${variant}.extraction.json`);
+}
+
+export async function saveExtractionSnapshot(url: string, snapshot: ExtractionSnapshot): Promise<void> {
+    const variant = extractionVariant(snapshot);
+    return saveDocument(extractionKey(url, variant), `${urlHash(url)}.${variant}.extraction.json`, snapshot);
+}
+
+/** Count one fingerprint comparison for `url`'s snapshot `variant` */
+export async function recordExtractionCheck(
+    url: string,
+    variant: string,
+    result: "HIT" | "MISS",
+    at: Date = new Date()
+): Promise<void> {
+    const counter = result === "HIT" ? "hits" : "misses";
+    const checkedISO = at.toISOString();
+
+    const redis = await getRedis();
+    if (redis) {
+        try {
+            const key = extractionStatsKey(url);
+            const pipeline = redis.pipeline();
+            pipeline.hincrby(key, `${variant}:${counter}`, 1);
+            pipeline.hset(key, { [`${variant}:lastCheckedISO`]: checkedISO, [`${variant}:lastResult`]: result });
+            await pipeline.exec();
+            return;
+        } catch (e) {
+            console.warn("[Storage] Redis extraction stats write failed, falling back to FS:", e);
+        }
+    }
+
+    try {
+        await fsUpdateDocument<Record<string, ExtractionStats>>(`${urlHash(url)}.extraction-stats.json`, {}, (stats) => {
+            const entry = (stats[variant] ??= { hits: 0, misses: 0 });
+            entry[counter] += 1;
+            entry.lastCheckedISO = checkedISO;
+            entry.lastResult = result;
+        });
+    } catch (e) {
+        console.warn("[Storage] File-system extraction stats write failed (non-critical):", e);
+    }
+}
+
+/** Fingerprint stats of every snapshot variant of `url`; empty when there are none */
+export async function loadExtractionStats(url: string): Promise<Record<string, ExtractionStats>> {
+    const redis = await getRedis();
+    if (redis) {
+        try {
+            const fields = await redis.hgetall<Record<string, string | number>>(extractionStatsKey(url));
+            const stats: Record<string, ExtractionStats> = {};
+            for (const [field, value] of Object.entries(fields ?? {})) {
+                const [variant, name] = field.split(":");
+                const entry = (stats[variant] ??= { hits: 0, misses: 0 });
+                if (name === "hits" || name === "misses") entry[name] = Number(value);
+                else if (name === "lastCheckedISO") entry.lastCheckedISO = String(value);
+                else if (name === "lastResult") entry.lastResult = value === "HIT" ? "HIT" : "MISS";
+            }
+            return stats;
+        } catch (e) {
+            console.warn("[Storage] Redis extraction stats read failed, falling back to FS:", e);
+        }
+    }
+
+    try {
+        const data = await readFile(join(REGISTRY_DIR, `${urlHash(url)}.extraction-stats.json`), "utf-8");
+        return JSON.parse(data) as Record<string, ExtractionStats>;
+    } catch {
+        return {};
+    }
+}
+
+export async function loadArticleContent(url: string): Promise<ArticleContentRecord | null> {
+    return loadDocument<ArticleContentRecord>(articleContentKey(url), `${urlHash(url)}.article.json`);
+}
+
+export async function saveArticleContent(record: ArticleContentRecord): Promise<void> {
+    return saveDocument(articleContentKey(record.url), `${urlHash(record.url)}.article.json`, record);
+}
+
+export async function loadFeedDefinitions(): Promise<FeedDefinitions> {
+    return loadCollection<FeedDefinition>(FEED_DEFINITIONS_KEY, "feeds.json");
+}
+
+export async function loadFeedDefinition(id: string): Promise<FeedDefinition | null> {
+    return loadCollectionEntry<FeedDefinition>(FEED_DEFINITIONS_KEY, "feeds.json", id);
+}
+
+/** Add or replace several definitions at once (bulk import); others are left alone */
+export async function saveFeedDefinitions(feeds: FeedDefinitions): Promise<void> {
+    return setCollectionEntries(FEED_DEFINITIONS_KEY, "feeds.json", feeds);
+}
+
+export async function saveFeedDefinition(feed: FeedDefinition): Promise<void> {
+    return setCollectionEntries(FEED_DEFINITIONS_KEY, "feeds.json", { [feed.id]: feed });
+}
+
+/** Returns false when no feed with that id existed */
+export async function deleteFeedDefinition(id: string): Promise<boolean> {
+    return (await deleteCollectionEntries(FEED_DEFINITIONS_KEY, "feeds.json", [id])) > 0;
+}
+
+export async function loadTrackedFeeds(): Promise<TrackedFeeds> {
+    return loadCollection<TrackedFeed>(TRACKED_FEEDS_KEY, "tracked.json");
+}
+
+// Tracked-feed entries this process has written or read back: params and entry time
+const trackedFeedMemo = new Map<string, { params: string; atMs: number }>();
+const MAX_TRACKED_FEED_MEMO = 1000;
+
+/**
+ * Record that `url` was served with `params`; keeps the original
+ * firstTrackedISO. Only writes when the URL is new, its params changed, or the
+ * entry is older than TRACKED_FEED_REWRITE_MS, and remembers what it saw, so
+ * most requests touch storage not at all.
+ */
+export async function trackFeed(url: string, params: Record<string, string>): Promise<void> {
+    const serialised = JSON.stringify(params);
+    const now = Date.now();
+    const fresh = (entry: { params: string; atMs: number } | undefined) =>
+        !!entry && entry.params === serialised && now - entry.atMs < TRACKED_FEED_REWRITE_MS;
+
+    if (fresh(trackedFeedMemo.get(url))) return;
+    if (trackedFeedMemo.size >= MAX_TRACKED_FEED_MEMO) trackedFeedMemo.clear();
+
+    const existing = await loadCollectionEntry<TrackedFeed>(TRACKED_FEEDS_KEY, "tracked.json", url);
+    const stored = existing
+        ? { params: JSON.stringify(existing.params), atMs: new Date(existing.lastRequestedISO).getTime() }
+        : undefined;
+    if (stored && fresh(stored)) {
+        trackedFeedMemo.set(url, stored);
+        return;
+    }
+
+    const nowISO = new Date(now).toISOString();
+    await setCollectionEntries<TrackedFeed>(TRACKED_FEEDS_KEY, "tracked.json", {
+        [url]: { url, params, firstTrackedISO: existing?.firstTrackedISO ?? nowISO, lastRequestedISO: nowISO },
+    });
+    trackedFeedMemo.set(url, { params: serialised, atMs: now });
+}
+
+export async function loadRefreshState(): Promise<Record<string, RefreshState>> {
+    return loadCollection<RefreshState>(REFRESH_STATE_KEY, "refresh-state.json");
+}
+
+/** Adds or replaces the given jobs' state; other jobs are left as stored */
+export async function saveRefreshState(state: Record<string, RefreshState>): Promise<void> {
+    return setCollectionEntries(REFRESH_STATE_KEY, "refresh-state.json", state);
+}
+
+/** Most recent first, at most MAX_CRON_RUNS */
+export async function loadCronRuns(): Promise<CronRun[]> {
+    return (await loadDocument<CronRun[]>(CRON_RUNS_KEY, "cron-runs.json")) ?? [];
+}
+
+export async function appendCronRun(run: CronRun): Promise<void> {
+    const runs = await loadCronRuns();
+    return saveDocument(CRON_RUNS_KEY, "cron-runs.json", [run, ...runs].slice(0, MAX_CRON_RUNS));
+}
+
+export async function loadWebSubSubscriptions(): Promise<WebSubSubscriptions> {
+    return loadCollection<WebSubSubscription>(WEBSUB_KEY, "websub.json");
+}
+
+export async function loadWebSubSubscription(id: string): Promise<WebSubSubscription | null> {
+    return loadCollectionEntry<WebSubSubscription>(WEBSUB_KEY, "websub.json", id);
+}
+
+/** Add or replace the given subscriptions; others are left alone */
+export async function saveWebSubSubscriptions(subscriptions: WebSubSubscriptions): Promise<void> {
+    return setCollectionEntries(WEBSUB_KEY, "websub.json", subscriptions);
+}
+
+export async function deleteWebSubSubscriptions(ids: string[]): Promise<void> {
+    await deleteCollectionEntries(WEBSUB_KEY, "websub.json", ids);
+}
+
+export async function loadWebhooks(): Promise<Webhooks> {
+    return loadCollection<WebhookRegistration>(WEBHOOKS_KEY, "webhooks.json");
+}
+
+export async function loadWebhook(id: string): Promise<WebhookRegistration | null> {
+    return loadCollectionEntry<WebhookRegistration>(WEBHOOKS_KEY, "webhooks.json", id);
+}
+
+export async function saveWebhook(webhook: WebhookRegistration): Promise<void> {
+    return setCollectionEntries(WEBHOOKS_KEY, "webhooks.json", { [webhook.id]: webhook });
+}
+
+/** Returns false when no webhook with that id existed */
+export async function deleteWebhook(id: string): Promise<boolean> {
+    return (await deleteCollectionEntries(WEBHOOKS_KEY, "webhooks.json", [id])) > 0;
+}
+
+// The delivery log is a Redis list (LPUSH + LTRIM, so concurrent dispatches
+// both land) at `<key>:log`; the bare key held the old JSON array
+let deliveryLogMigrated = false;
+
+async function redisDeliveryLogKey(redis: import("@upstash/redis").Redis): Promise<string> {
+    const listKey = `${WEBHOOK_DELIVERIES_KEY}:log`;
+    if (deliveryLogMigrated) return listKey;
+
+    const legacy = await redis.get<WebhookDelivery[]>(WEBHOOK_DELIVERIES_KEY);
+    if (Array.isArray(legacy) && legacy.length > 0) {
+        await redis.pipeline()
+            .rpush(listKey, ...legacy)
+            .ltrim(listKey, 0, MAX_WEBHOOK_DELIVERIES - 1)
+            .del(WEBHOOK_DELIVERIES_KEY)
+            .exec();
+        console.log(`[Storage] Migrated ${legacy.length} webhook deliveries to a list`);
+    }
+    deliveryLogMigrated = true;
+    return listKey;
+}
+
+/** Most recent first, at most MAX_WEBHOOK_DELIVERIES across all webhooks */
+export async function loadWebhookDeliveries(): Promise<WebhookDelivery[]> {
+    const redis = await getRedis();
+    if (redis) {
+        try {
+            return await redis.lrange<WebhookDelivery>(await redisDeliveryLogKey(redis), 0, MAX_WEBHOOK_DELIVERIES - 1);
+        } catch (e) {
+            console.warn("[Storage] Redis read of the webhook delivery log failed, falling back to FS:", e);
+        }
+    }
+    return (await loadDocument<WebhookDelivery[]>(WEBHOOK_DELIVERIES_KEY, "webhook-deliveries.json")) ?? [];
+}
+
+/** Prepend `deliveries` (first one ends up newest) and trim the log */
+export async function appendWebhookDeliveries(deliveries: WebhookDelivery[]): Promise<void> {
+    if (deliveries.length === 0) return;
+
+    const redis = await getRedis();
+    if (redis) {
+        try {
+            const key = await redisDeliveryLogKey(redis);
+            await redis.pipeline()
+                .lpush(key, ...[...deliveries].reverse())
+                .ltrim(key, 0, MAX_WEBHOOK_DELIVERIES - 1)
+                .exec();
+            return;
+        } catch (e) {
+            console.warn("[Storage] Redis write of the webhook delivery log failed, falling back to FS:", e);
+        }
+    }
+    try {
+        await fsUpdateDocument<WebhookDelivery[]>("webhook-deliveries.json", [], (log) => {
+            log.unshift(...deliveries);
+            log.splice(MAX_WEBHOOK_DELIVERIES);
+        });
+    } catch (e) {
+        console.warn("[Storage] File-system write failed (non-critical):", e);
+    }
+}
+
+// --- LLM usage ---
+
+/** Add one completion's tokens to `url`'s usage for `model` on the UTC day of `at` */
+export async function recordLLMUsage(
+    url: string,
+    model: string,
+    tokens: { promptTokens: number; completionTokens: number },
+    at: Date = new Date()
+): Promise<void> {
+    const day = at.toISOString().slice(0, 10);
+    const month = day.slice(0, 7);
+
+    const redis = await getRedis();
+    if (redis) {
+        try {
+            const key = usageKey(month);
+            const field = JSON.stringify([day, url, model]);
+            const pipeline = redis.pipeline();
+            pipeline.hincrby(`${key}:calls`, field, 1);
+            pipeline.hincrby(`${key}:prompt`, field, tokens.promptTokens);
+            pipeline.hincrby(`${key}:completion`, field, tokens.completionTokens);
+            await pipeline.exec();
+            return;
+        } catch (e) {
+            console.warn("[Storage] Redis usage write failed, falling back to FS:", e);
+        }
+    }
+
+    try {
+        await fsUpdateDocument<MonthlyUsage>(`usage-${month}.json`, {}, (usage) => {
+            const models = ((usage[day] ??= {})[url] ??= {});
+            const counts = (models[model] ??= { calls: 0, promptTokens: 0, completionTokens: 0 });
+            counts.calls += 1;
+            counts.promptTokens += tokens.promptTokens;
+            counts.completionTokens += tokens.completionTokens;
+        });
+    } catch (e) {
+        console.warn("[Storage] File-system usage write failed (non-critical):", e);
+    }
+}
+
+/** Usage recorded in `month` ("YYYY-MM"); empty when there is none */
+export async function loadMonthlyUsage(month: string): Promise<MonthlyUsage> {
+    const redis = await getRedis();
+    if (redis) {
+        try {
+            const key = usageKey(month);
+            const [calls, prompt, completion] = await redis.pipeline()
+                .hgetall(`${key}:calls`)
+                .hgetall(`${key}:prompt`)
+                .hgetall(`${key}:completion`)
+                .exec<Array<Record<string, number> | null>>();
+
+            const usage: MonthlyUsage = {};
+            for (const [field, count] of Object.entries(calls ?? {})) {
+                const [day, url, model] = JSON.parse(field) as [string, string, string];
+                ((usage[day] ??= {})[url] ??= {})[model] = {
+                    calls: Number(count),
+                    promptTokens: Number(prompt?.[field] ?? 0),
+                    completionTokens: Number(completion?.[field] ?? 0),
+                };
+            }
+            return usage;
+        } catch (e) {
+            console.warn("[Storage] Redis usage read failed, falling back to FS:", e);
+        }
+    }
+
+    try {
+        const data = await readFile(join(REGISTRY_DIR, `usage-${month}.json`), "utf-8");
+        return JSON.parse(data) as MonthlyUsage;
+    } catch {
+        return {};
+    }
+}
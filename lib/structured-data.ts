@@ -0,0 +1,261 @@
+// lib/structured-data.ts
+// Structured-data extraction (JSON-LD / microdata / OpenGraph).
+//
+// Many news and blog index pages embed schema.org `ItemList` / `BlogPosting`
+// data that already carries titles, URLs and exact `datePublished` values.
+// Reading it directly is free (no LLM call) and removes the NO_DATE_FOUND
+// guesswork. OpenGraph only describes the page itself, so it is used for the
+// channel metadata rather than for items. It is opt-in (structured=prefer):
+// the embedded data often lists a sidebar or "related" block rather than the
+// page's main listing, and it bypasses the configured selectors.
+
+import { load, type CheerioAPI } from "cheerio";
+import { type RSSChannel, type RSSItem } from "@/lib/xml-builder";
+import { toRFC822 } from "@/lib/dates";
+import { absoluteUrl } from "@/lib/url";
+
+// --- Types ---
+
+export type StructuredExtractor = "json-ld" | "microdata";
+
+export type StructuredDataMode = "prefer" | "never";
+
+export interface StructuredDataResult {
+    extractor: StructuredExtractor;
+    channel: RSSChannel;
+    items: RSSItem[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+// --- Helpers ---
+
+const ARTICLE_TYPES = new Set([
+    "Article",
+    "BlogPosting",
+    "NewsArticle",
+    "TechArticle",
+    "ScholarlyArticle",
+    "Report",
+    "AnalysisNewsArticle",
+    "OpinionNewsArticle",
+    "ReportageNewsArticle",
+    "LiveBlogPosting",
+    "SocialMediaPosting",
+    "PodcastEpisode",
+    "VideoObject",
+]);
+
+export function parseStructuredDataMode(value: string | null): StructuredDataMode {
+    return value === "prefer" ? "prefer" : "never";
+}
+
+function isObject(value: unknown): value is JsonObject {
+    return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function types(node: JsonObject): string[] {
+    const raw = node["@type"];
+    const list = Array.isArray(raw) ? raw : [raw];
+    // Accept both "BlogPosting" and "https://schema.org/BlogPosting"
+    return list.filter((t): t is string => typeof t === "string").map((t) => t.replace(/^https?:\/\/schema\.org\//, ""));
+}
+
+function text(value: unknown): string {
+    if (typeof value === "string") return value.replace(/\s+/g, " ").trim();
+    if (isObject(value)) return text(value["@value"] ?? value.name ?? value["@id"]);
+    if (Array.isArray(value)) return text(value[0]);
+    return "";
+}
+
+function keywordList(value: unknown): string[] {
+    if (Array.isArray(value)) return value.map(text).filter(Boolean);
+    if (typeof value === "string") return value.split(",").map((k) => k.trim()).filter(Boolean);
+    return [];
+}
+
+function samePage(a: string, b: string): boolean {
+    const strip = (url: string) => url.replace(/#.*$/, "").replace(/\/+$/, "");
+    return strip(a) === strip(b);
+}
+
+function dedupeByLink(items: RSSItem[]): RSSItem[] {
+    const seen = new Set<string>();
+    return items.filter((item) => {
+        if (seen.has(item.link)) return false;
+        seen.add(item.link);
+        return true;
+    });
+}
+
+// --- JSON-LD ---
+
+function articleFromJsonLd(node: JsonObject, pageUrl: string, fallback?: { name?: string; url?: string }): RSSItem | null {
+    const link = absoluteUrl(
+        text(node.url) || text(node.mainEntityOfPage) || fallback?.url || text(node["@id"]),
+        pageUrl
+    );
+    const title = text(node.headline) || text(node.name) || fallback?.name || "";
+    if (!link || !title || samePage(link, pageUrl)) return null;
+
+    const description = text(node.description) || text(node.abstract);
+    const articleBody = text(node.articleBody);
+
+    return {
+        title,
+        link,
+        guid: link,
+        description: description || title,
+        pubDate: toRFC822(text(node.datePublished) || text(node.dateCreated) || text(node.uploadDate)),
+        categories: Array.from(new Set([...keywordList(node.articleSection), ...keywordList(node.keywords)])),
+        content: articleBody || undefined,
+    };
+}
+
+/** Walk every object in the JSON-LD graph, collecting articles and ItemList entries in document order */
+function collectJsonLdItems(root: unknown, pageUrl: string): RSSItem[] {
+    const items: RSSItem[] = [];
+
+    const visit = (value: unknown) => {
+        if (Array.isArray(value)) {
+            value.forEach(visit);
+            return;
+        }
+        if (!isObject(value)) return;
+
+        const nodeTypes = types(value);
+
+        if (nodeTypes.includes("ListItem")) {
+            const inner = value.item;
+            if (isObject(inner)) {
+                const item = articleFromJsonLd(inner, pageUrl, { name: text(value.name), url: text(value.url) });
+                if (item) items.push(item);
+            } else {
+                // Bare ListItem: { name, url } or { item: "https://..." }
+                const item = articleFromJsonLd({}, pageUrl, {
+                    name: text(value.name),
+                    url: text(value.url) || text(inner),
+                });
+                if (item) items.push(item);
+            }
+            return;
+        }
+
+        if (nodeTypes.some((t) => ARTICLE_TYPES.has(t))) {
+            const item = articleFromJsonLd(value, pageUrl);
+            if (item) {
+                items.push(item);
+                return;
+            }
+        }
+
+        for (const [key, child] of Object.entries(value)) {
+            // Skip leaf metadata that can't contain articles
+            if (key === "@context" || key === "publisher" || key === "author" || key === "image") continue;
+            visit(child);
+        }
+    };
+
+    visit(root);
+    return items;
+}
+
+function extractJsonLd($: CheerioAPI, pageUrl: string): RSSItem[] {
+    const blocks = $('script[type="application/ld+json"]').toArray();
+    const items: RSSItem[] = [];
+
+    for (const block of blocks) {
+        const raw = $(block).contents().text().trim();
+        if (!raw) continue;
+        try {
+            items.push(...collectJsonLdItems(JSON.parse(raw), pageUrl));
+        } catch {
+            // Malformed JSON-LD is common (trailing commas, raw newlines); skip the block
+            console.log(`[Structured] Skipping unparseable JSON-LD block on ${pageUrl}`);
+        }
+    }
+
+    return dedupeByLink(items);
+}
+
+// --- Microdata ---
+
+function extractMicrodata($: CheerioAPI, pageUrl: string): RSSItem[] {
+    const scopes = $("[itemscope][itemtype]").toArray().filter((el) => {
+        const itemType = $(el).attr("itemtype") || "";
+        return itemType.split(/\s+/).some((t) => ARTICLE_TYPES.has(t.replace(/^https?:\/\/schema\.org\//, "")));
+    });
+
+    const items = scopes.map((scope): RSSItem | null => {
+        // Only properties that belong to this scope, not to a nested itemscope
+        // `attrs` are checked in order before falling back to the element's text
+        const prop = (name: string, attrs: string[]): string => {
+            const el = $(scope)
+                .find(`[itemprop~="${name}"]`)
+                .toArray()
+                .find((candidate) => $(candidate).parent().closest("[itemscope]").get(0) === scope);
+            if (!el) return "";
+            const node = $(el);
+            const attrValue = attrs.map((attr) => node.attr(attr)).find(Boolean);
+            return (attrValue || node.text()).replace(/\s+/g, " ").trim();
+        };
+
+        const title = prop("headline", ["content"]) || prop("name", ["content"]);
+        const link = absoluteUrl(
+            prop("url", ["href", "content"]) ||
+                prop("mainEntityOfPage", ["href", "content", "itemid"]) ||
+                $(scope).find("a[href]").first().attr("href"),
+            pageUrl
+        );
+        if (!title || !link || samePage(link, pageUrl)) return null;
+
+        const description = prop("description", ["content"]);
+        return {
+            title,
+            link,
+            guid: link,
+            description: description || title,
+            pubDate: toRFC822(prop("datePublished", ["datetime", "content"]) || prop("dateCreated", ["datetime", "content"])),
+            categories: keywordList(prop("keywords", ["content"])),
+        };
+    });
+
+    return dedupeByLink(items.filter((item): item is RSSItem => item !== null));
+}
+
+// --- OpenGraph (channel metadata) ---
+
+function extractChannel($: CheerioAPI, pageUrl: string): RSSChannel {
+    const meta = (key: string) =>
+        ($(`meta[property="${key}"]`).attr("content") || $(`meta[name="${key}"]`).attr("content") || "").trim();
+
+    return {
+        title: meta("og:site_name") || meta("og:title") || $("title").first().text().trim() || pageUrl,
+        link: absoluteUrl(meta("og:url"), pageUrl) ?? pageUrl,
+        description: meta("og:description") || meta("description"),
+    };
+}
+
+// --- Public API ---
+
+/**
+ * Extract feed items from embedded structured data. JSON-LD wins over
+ * microdata when both are present since it usually carries cleaner dates.
+ * Returns null when the page has no usable article data.
+ */
+export function extractStructuredData(html: string, pageUrl: string): StructuredDataResult | null {
+    const $ = load(html);
+
+    const jsonLdItems = extractJsonLd($, pageUrl);
+    const microdataItems = jsonLdItems.length > 0 ? [] : extractMicrodata($, pageUrl);
+
+    const extractor: StructuredExtractor = jsonLdItems.length > 0 ? "json-ld" : "microdata";
+    const items = jsonLdItems.length > 0 ? jsonLdItems : microdataItems;
+    if (items.length === 0) return null;
+
+    return {
+        extractor,
+        channel: extractChannel($, pageUrl),
+        items,
+    };
+}
@@ -0,0 +1,88 @@
+// lib/url.ts
+// URL helpers shared by the fetchers and extractors.
+//
+// Every module that reads links out of a page (HTML conversion, native feeds,
+// structured data, recipes) needs to resolve them against the page URL and
+// drop the ones that don't parse, and the validators (saved feeds, webhooks,
+// LLM output) need to tell an absolute http(s) URL from anything else. They
+// used to carry their own copies of both. URLs we fetch on someone else's
+// behalf (direct fetches, WebSub callbacks) also pass `assertPublicUrl`.
+
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+
+/** `value` resolved against `baseUrl`; undefined when it is empty or not a URL */
+export function absoluteUrl(value: string | undefined, baseUrl: string): string | undefined {
+    if (!value) return undefined;
+    try {
+        return new URL(value.trim(), baseUrl).toString();
+    } catch {
+        return undefined;
+    }
+}
+
+/** True when `value` parses as an absolute http(s) URL */
+export function isHttpUrl(value: string): boolean {
+    try {
+        const { protocol } = new URL(value.trim());
+        return protocol === "http:" || protocol === "https:";
+    } catch {
+        return false;
+    }
+}
+
+/** `value` as a URL when `isHttpUrl` accepts it, else null */
+export function parseHttpUrl(value: string | null | undefined): URL | null {
+    return value && isHttpUrl(value) ? new URL(value.trim()) : null;
+}
+
+/** True for loopback, private, link-local, CGNAT, multicast, and unspecified addresses */
+function isPrivateAddress(address: string): boolean {
+    // IPv4-mapped IPv6, dotted (::ffff:127.0.0.1) or as WHATWG URLs write it (::ffff:7f00:1)
+    const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    const mappedHex = address.toLowerCase().match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+        const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+        return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+
+    if (isIP(address) === 4) {
+        const [a, b] = address.split(".").map(Number);
+        return a === 0 || a === 10 || a === 127 || a >= 224
+            || (a === 100 && b >= 64 && b <= 127)
+            || (a === 169 && b === 254)
+            || (a === 172 && b >= 16 && b <= 31)
+            || (a === 192 && b === 168)
+            || (a === 198 && (b === 18 || b === 19));
+    }
+
+    const lower = address.toLowerCase();
+    return lower === "::" || lower === "::1"
+        || /^f[cd]/.test(lower)            // fc00::/7 unique local
+        || /^fe[89ab]/.test(lower)         // fe80::/10 link-local
+        || lower.startsWith("ff");         // multicast
+}
+
+/**
+ * Refuse URLs we should not fetch on a caller's behalf: anything but http(s),
+ * and hosts that are (or resolve to) private or loopback addresses. The URL
+ * comes from the request (or a WebSub subscriber's callback), so without this
+ * the app could be made to reach internal services. ALLOW_PRIVATE_FETCH=true
+ * turns the host check off (intranet setups, local testing).
+ */
+export async function assertPublicUrl(url: URL): Promise<void> {
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+        throw new Error(`Refusing to fetch ${url.protocol} URL`);
+    }
+    if (process.env.ALLOW_PRIVATE_FETCH === "true") return;
+
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+    if (host === "localhost" || host.endsWith(".localhost")) {
+        throw new Error(`Refusing to fetch private host ${host}`);
+    }
+    const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((entry) => entry.address);
+    if (addresses.some(isPrivateAddress)) {
+        throw new Error(`Refusing to fetch private host ${host}`);
+    }
+}
@@ -0,0 +1,182 @@
+// lib/usage.ts
+// LLM token usage, cost, and spending budgets.
+//
+// Every completion's prompt and completion tokens are recorded per feed URL,
+// model ("backend:model"), and UTC day (recordLLMUsage in lib/storage). Costs
+// are computed when usage is read, from the per-model prices in LLM_PRICES, so
+// correcting a price re-prices the month so far.
+// Once LLM_DAILY_BUDGET_USD or LLM_MONTHLY_BUDGET_USD is spent,
+// generateFeedData stops calling models and /api/rss serves the last good
+// extraction until the period ends. With a budget set, models without a price
+// in LLM_PRICES are not called at all: there are no built-in prices, since a
+// stale one would quietly keep a budget from running out.
+
+import { loadMonthlyUsage, type MonthlyUsage, type UsageCounts } from "@/lib/storage";
+
+// --- Types ---
+
+export interface ModelPrice {
+    input: number;     // USD per 1M prompt tokens
+    output: number;    // USD per 1M completion tokens
+}
+
+export interface UsageTotals extends UsageCounts {
+    costUSD: number;
+}
+
+export interface UsageSummary {
+    totals: UsageTotals;
+    byDay: Record<string, UsageTotals>;
+    byUrl: Record<string, UsageTotals>;
+    byModel: Record<string, UsageTotals>;
+    unpricedModels: string[];   // models with usage but no price (counted as free)
+}
+
+export type BudgetPeriod = "daily" | "monthly";
+
+export interface BudgetStatus {
+    daily: { limitUSD: number | null; spentUSD: number };
+    monthly: { limitUSD: number | null; spentUSD: number };
+    exhausted: BudgetPeriod | null;
+    resetsAtISO: string | null;   // start of the next day/month when a budget is exhausted
+}
+
+export class LLMBudgetError extends Error {
+    constructor(public readonly budget: BudgetStatus) {
+        const period = budget.exhausted ?? "daily";
+        super(`LLM ${period} budget exhausted ($${roundUSD(budget[period].spentUSD)} of $${budget[period].limitUSD})`);
+        this.name = "LLMBudgetError";
+    }
+}
+
+// --- Settings ---
+
+/** Prices from LLM_PRICES: `{"backend:model" | "model" | "backend": {"input", "output"}}`, USD per 1M tokens */
+function configuredPrices(): Map<string, ModelPrice> {
+    const prices = new Map<string, ModelPrice>();
+    const raw = process.env.LLM_PRICES;
+    if (!raw) return prices;
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        console.warn("[Usage] LLM_PRICES is not valid JSON, ignoring it");
+        return prices;
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        console.warn("[Usage] LLM_PRICES must be an object keyed by model, ignoring it");
+        return prices;
+    }
+
+    for (const [name, value] of Object.entries(parsed as Record<string, unknown>)) {
+        const record = value && typeof value === "object" ? value as Record<string, unknown> : {};
+        if (typeof record.input !== "number" || typeof record.output !== "number" || record.input < 0 || record.output < 0) {
+            console.warn(`[Usage] LLM_PRICES.${name} needs non-negative "input" and "output" prices, ignoring it`);
+            continue;
+        }
+        prices.set(name, { input: record.input, output: record.output });
+    }
+    return prices;
+}
+
+function budgetLimit(name: string): number | null {
+    const value = parseFloat(process.env[name] || "");
+    return isNaN(value) || value <= 0 ? null : value;
+}
+
+// --- Costs ---
+
+/** Price of a "backend:model" id: the exact id, then the model alone, then the backend */
+function priceFor(prices: Map<string, ModelPrice>, modelId: string): ModelPrice | undefined {
+    const index = modelId.indexOf(":");
+    const backend = index === -1 ? modelId : modelId.slice(0, index);
+    const model = index === -1 ? modelId : modelId.slice(index + 1);
+    return prices.get(modelId) ?? prices.get(model) ?? prices.get(backend);
+}
+
+/** True when LLM_PRICES has a price for `modelId` */
+export function hasModelPrice(modelId: string): boolean {
+    return priceFor(configuredPrices(), modelId) !== undefined;
+}
+
+function roundUSD(value: number): number {
+    return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+function addTo(totals: Record<string, UsageTotals>, key: string, counts: UsageCounts, costUSD: number): void {
+    const entry = (totals[key] ??= { calls: 0, promptTokens: 0, completionTokens: 0, costUSD: 0 });
+    entry.calls += counts.calls;
+    entry.promptTokens += counts.promptTokens;
+    entry.completionTokens += counts.completionTokens;
+    entry.costUSD = roundUSD(entry.costUSD + costUSD);
+}
+
+/** Totals of a month's usage by day, feed URL, and model, optionally only for days accepted by `includeDay` */
+export function summariseUsage(usage: MonthlyUsage, includeDay: (day: string) => boolean = () => true): UsageSummary {
+    const prices = configuredPrices();
+    const summary: UsageSummary = {
+        totals: { calls: 0, promptTokens: 0, completionTokens: 0, costUSD: 0 },
+        byDay: {},
+        byUrl: {},
+        byModel: {},
+        unpricedModels: [],
+    };
+    const unpriced = new Set<string>();
+
+    for (const day of Object.keys(usage).sort()) {
+        if (!includeDay(day)) continue;
+        for (const [url, models] of Object.entries(usage[day])) {
+            for (const [model, counts] of Object.entries(models)) {
+                const price = priceFor(prices, model);
+                if (!price) unpriced.add(model);
+                const costUSD = price
+                    ? (counts.promptTokens * price.input + counts.completionTokens * price.output) / 1_000_000
+                    : 0;
+
+                addTo(summary.byDay, day, counts, costUSD);
+                addTo(summary.byUrl, url, counts, costUSD);
+                addTo(summary.byModel, model, counts, costUSD);
+                summary.totals.calls += counts.calls;
+                summary.totals.promptTokens += counts.promptTokens;
+                summary.totals.completionTokens += counts.completionTokens;
+                summary.totals.costUSD = roundUSD(summary.totals.costUSD + costUSD);
+            }
+        }
+    }
+
+    summary.unpricedModels = Array.from(unpriced).sort();
+    return summary;
+}
+
+// --- Budgets ---
+
+/** Spend against LLM_DAILY_BUDGET_USD / LLM_MONTHLY_BUDGET_USD (UTC day and month) */
+export async function checkLLMBudget(now: Date = new Date()): Promise<BudgetStatus> {
+    const day = now.toISOString().slice(0, 10);
+    const month = day.slice(0, 7);
+    const dailyLimit = budgetLimit("LLM_DAILY_BUDGET_USD");
+    const monthlyLimit = budgetLimit("LLM_MONTHLY_BUDGET_USD");
+
+    const status: BudgetStatus = {
+        daily: { limitUSD: dailyLimit, spentUSD: 0 },
+        monthly: { limitUSD: monthlyLimit, spentUSD: 0 },
+        exhausted: null,
+        resetsAtISO: null,
+    };
+    if (dailyLimit === null && monthlyLimit === null) return status;
+
+    const summary = summariseUsage(await loadMonthlyUsage(month));
+    status.daily.spentUSD = summary.byDay[day]?.costUSD ?? 0;
+    status.monthly.spentUSD = summary.totals.costUSD;
+
+    // The monthly budget wins: it is exhausted for longer
+    if (monthlyLimit !== null && status.monthly.spentUSD >= monthlyLimit) {
+        status.exhausted = "monthly";
+        status.resetsAtISO = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString();
+    } else if (dailyLimit !== null && status.daily.spentUSD >= dailyLimit) {
+        status.exhausted = "daily";
+        status.resetsAtISO = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)).toISOString();
+    }
+    return status;
+}
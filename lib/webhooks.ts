@@ -0,0 +1,375 @@
+// lib/webhooks.ts
+// Outgoing webhooks for new articles.
+//
+// `stabiliseDates` knows exactly which items it has never seen before. Each
+// registered webhook whose feed (saved feed id or target page URL) matches
+// receives one POST per batch of new items: a signed JSON payload by default,
+// or a Slack / Discord message rendered from an optional template. Failed
+// deliveries are retried with exponential backoff and every delivery, with its
+// attempts, is kept in a short log served by /api/webhooks/<id>/deliveries.
+
+import { createHmac, randomBytes } from "crypto";
+import {
+    loadWebhooks,
+    loadFeedDefinitions,
+    appendWebhookDeliveries,
+    type WebhookAttempt,
+    type WebhookDelivery,
+    type WebhookRegistration,
+} from "@/lib/storage";
+import { type RSSItem } from "@/lib/xml-builder";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { isHttpUrl } from "@/lib/url";
+import { isValidFeedId } from "@/lib/feeds";
+
+// --- Types ---
+
+export type WebhookFormat = WebhookRegistration["format"];
+
+export interface WebhookInput {
+    name: string;
+    endpoint: string;
+    feedId?: string;
+    url?: string;
+    secret?: string;
+    format: WebhookFormat;
+    template?: string;
+    enabled: boolean;
+}
+
+/** Placeholder values available to templates */
+interface TemplateContext {
+    feed: string;
+    url: string;
+    feedUrl: string;
+    count: number;
+    items: RSSItem[];
+}
+
+// --- Settings ---
+
+export const WEBHOOK_FORMATS: readonly WebhookFormat[] = ["json", "slack", "discord"];
+
+const MIN_SECRET_LENGTH = 16;
+const MAX_SECRET_LENGTH = 200;
+const MAX_TEMPLATE_LENGTH = 2000;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+// Waits before the 2nd, 3rd and 4th attempt; 4xx other than 429 is never retried
+const RETRY_DELAYS_MS = [2_000, 10_000, 30_000];
+const DELIVERY_CONCURRENCY = 4;
+const MAX_ITEMS_PER_PAYLOAD = 50;
+const DISCORD_CONTENT_LIMIT = 2000;
+
+const DEFAULT_TEMPLATE = "{{count}} new article(s) on {{feed}}\n{{items}}";
+
+// --- Ids and secrets ---
+
+/** Short random id, e.g. "a1b2c3d4e5f6" */
+export function generateWebhookId(): string {
+    return randomBytes(6).toString("hex");
+}
+
+export function generateWebhookSecret(): string {
+    return randomBytes(24).toString("hex");
+}
+
+/** For listings: the secret is only returned when the webhook is created */
+export function redactWebhook(webhook: WebhookRegistration) {
+    return { ...webhook, secret: "(set)" };
+}
+
+// --- Validation ---
+
+/**
+ * Validate a create (`partial=false`) or update (`partial=true`) body. Exactly
+ * one of `feedId` / `url` must be set on create; whether the feed exists is
+ * checked by the route.
+ */
+export function validateWebhookInput(
+    body: unknown,
+    partial = false
+): { input: Partial<WebhookInput>; errors: string[] } {
+    if (!body || typeof body !== "object" || Array.isArray(body)) {
+        return { input: {}, errors: ["Body must be a JSON object"] };
+    }
+
+    const record = body as Record<string, unknown>;
+    const input: Partial<WebhookInput> = {};
+    const errors: string[] = [];
+
+    if (record.name !== undefined || !partial) {
+        if (typeof record.name !== "string" || !record.name.trim()) {
+            errors.push("name: is required");
+        } else if (record.name.length > 200) {
+            errors.push("name: must be at most 200 characters");
+        } else {
+            input.name = record.name.trim();
+        }
+    }
+
+    if (record.endpoint !== undefined || !partial) {
+        if (typeof record.endpoint !== "string" || !isHttpUrl(record.endpoint.trim())) {
+            errors.push("endpoint: must be an http(s) URL");
+        } else {
+            input.endpoint = record.endpoint.trim();
+        }
+    }
+
+    if (record.feedId !== undefined && record.url !== undefined) {
+        errors.push("feedId, url: set only one of them");
+    } else if (record.feedId !== undefined) {
+        if (typeof record.feedId !== "string" || !isValidFeedId(record.feedId.trim())) {
+            errors.push("feedId: must be a saved feed id");
+        } else {
+            input.feedId = record.feedId.trim();
+        }
+    } else if (record.url !== undefined) {
+        if (typeof record.url !== "string" || !isHttpUrl(record.url.trim())) {
+            errors.push("url: must be an http(s) URL");
+        } else {
+            input.url = record.url.trim();
+        }
+    } else if (!partial) {
+        errors.push("feedId or url: one is required");
+    }
+
+    if (record.secret !== undefined) {
+        if (
+            typeof record.secret !== "string" ||
+            record.secret.length < MIN_SECRET_LENGTH || record.secret.length > MAX_SECRET_LENGTH
+        ) {
+            errors.push(`secret: must be a string of ${MIN_SECRET_LENGTH}-${MAX_SECRET_LENGTH} characters`);
+        } else {
+            input.secret = record.secret;
+        }
+    }
+
+    if (record.format !== undefined) {
+        if (!WEBHOOK_FORMATS.includes(record.format as WebhookFormat)) {
+            errors.push(`format: must be one of ${WEBHOOK_FORMATS.join(", ")}`);
+        } else {
+            input.format = record.format as WebhookFormat;
+        }
+    } else if (!partial) {
+        input.format = "json";
+    }
+
+    if (record.template === null) {
+        // Explicit null restores the default template on update
+        input.template = undefined;
+    } else if (record.template !== undefined) {
+        if (typeof record.template !== "string" || record.template.length > MAX_TEMPLATE_LENGTH) {
+            errors.push(`template: must be a string of at most ${MAX_TEMPLATE_LENGTH} characters`);
+        } else {
+            input.template = record.template;
+        }
+    }
+
+    if (record.enabled !== undefined) {
+        if (typeof record.enabled !== "boolean") {
+            errors.push("enabled: must be a boolean");
+        } else {
+            input.enabled = record.enabled;
+        }
+    } else if (!partial) {
+        input.enabled = true;
+    }
+
+    return { input, errors };
+}
+
+// --- Payloads ---
+
+function itemLine(item: RSSItem, format: WebhookFormat): string {
+    if (format === "slack") {
+        // Slack mrkdwn links: <url|text>; "<", ">" and "&" must be escaped in the text
+        const title = item.title.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+        return `• <${item.link}|${title}>`;
+    }
+    if (format === "discord") {
+        return `• [${item.title.replace(/[[\]]/g, "")}](<${item.link}>)`;
+    }
+    return `• ${item.title} — ${item.link}`;
+}
+
+/**
+ * Render a template. Placeholders: {{feed}}, {{url}}, {{feedUrl}}, {{count}},
+ * {{items}} (one line per item) and {{title}} / {{link}} of the first item.
+ */
+export function renderTemplate(template: string, context: TemplateContext, format: WebhookFormat): string {
+    const first = context.items[0];
+    const values: Record<string, string> = {
+        feed: context.feed,
+        url: context.url,
+        feedUrl: context.feedUrl,
+        count: `${context.count}`,
+        items: context.items.map((item) => itemLine(item, format)).join("\n"),
+        title: first?.title ?? "",
+        link: first?.link ?? "",
+    };
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
+}
+
+function buildPayload(
+    webhook: WebhookRegistration,
+    deliveryId: string,
+    context: TemplateContext
+): Record<string, unknown> {
+    if (webhook.format === "slack") {
+        return { text: renderTemplate(webhook.template || DEFAULT_TEMPLATE, context, "slack") };
+    }
+    if (webhook.format === "discord") {
+        const content = renderTemplate(webhook.template || DEFAULT_TEMPLATE, context, "discord");
+        return {
+            content: content.length > DISCORD_CONTENT_LIMIT ? content.slice(0, DISCORD_CONTENT_LIMIT - 1) + "…" : content,
+        };
+    }
+
+    return {
+        event: "new_articles",
+        deliveryId,
+        webhookId: webhook.id,
+        feed: {
+            id: webhook.feedId,
+            name: context.feed,
+            url: context.url,
+            feedUrl: context.feedUrl,
+        },
+        count: context.count,
+        items: context.items.map((item) => ({
+            title: item.title,
+            link: item.link,
+            guid: item.guid,
+            pubDate: item.pubDate,
+            description: item.description,
+            categories: item.categories,
+        })),
+        sentAtISO: new Date().toISOString(),
+    };
+}
+
+/** HMAC-SHA256 over `<timestamp>.<body>`, so a captured payload can't be replayed with a new timestamp */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+    return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+// --- Delivery ---
+
+function isRetryable(status: number): boolean {
+    return status === 0 || status === 429 || status >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function attemptDelivery(
+    webhook: WebhookRegistration,
+    deliveryId: string,
+    body: string
+): Promise<WebhookAttempt> {
+    const started = Date.now();
+    const timestamp = `${Math.floor(started / 1000)}`;
+
+    try {
+        const res = await fetch(webhook.endpoint, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                "User-Agent": "RSS-GenAI-Webhook",
+                "X-Webhook-Id": deliveryId,
+                "X-Webhook-Event": "new_articles",
+                "X-Webhook-Timestamp": timestamp,
+                "X-Webhook-Signature": `sha256=${signPayload(webhook.secret, timestamp, body)}`,
+            },
+            body,
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        await res.arrayBuffer();
+        return {
+            atISO: new Date(started).toISOString(),
+            status: res.status,
+            durationMs: Date.now() - started,
+            error: res.ok ? undefined : `HTTP ${res.status}`,
+        };
+    } catch (e) {
+        return {
+            atISO: new Date(started).toISOString(),
+            status: 0,
+            durationMs: Date.now() - started,
+            error: e instanceof Error ? e.message : String(e),
+        };
+    }
+}
+
+async function deliverWithRetry(
+    webhook: WebhookRegistration,
+    targetUrl: string,
+    context: TemplateContext
+): Promise<WebhookDelivery> {
+    const deliveryId = randomBytes(8).toString("hex");
+    const body = JSON.stringify(buildPayload(webhook, deliveryId, context));
+    const attempts: WebhookAttempt[] = [];
+
+    for (let attempt = 0; attempt <= RETRY_DELAYS_MS.length; attempt++) {
+        if (attempt > 0) await sleep(RETRY_DELAYS_MS[attempt - 1]);
+
+        const result = await attemptDelivery(webhook, deliveryId, body);
+        attempts.push(result);
+        if (!result.error || !isRetryable(result.status)) break;
+    }
+
+    const last = attempts[attempts.length - 1];
+    const ok = !last.error;
+    if (!ok) {
+        console.warn(`[Webhooks] ${webhook.id} → ${webhook.endpoint} failed after ${attempts.length} attempt(s): ${last.error}`);
+    }
+
+    return {
+        id: deliveryId,
+        webhookId: webhook.id,
+        event: "new_articles",
+        targetUrl,
+        itemCount: context.count,
+        ok,
+        attempts,
+        createdAtISO: attempts[0].atISO,
+    };
+}
+
+/**
+ * Notify every enabled webhook watching `targetUrl` about `items` (the articles
+ * `stabiliseDates` just recorded). Runs after the response via `after()`.
+ */
+export async function dispatchNewArticles(origin: string, targetUrl: string, items: RSSItem[]): Promise<number> {
+    if (items.length === 0) return 0;
+
+    const webhooks = Object.values(await loadWebhooks()).filter((webhook) => webhook.enabled);
+    if (webhooks.length === 0) return 0;
+
+    const feeds = webhooks.some((webhook) => webhook.feedId) ? await loadFeedDefinitions() : {};
+    const matching = webhooks.filter((webhook) =>
+        webhook.url === targetUrl || (webhook.feedId !== undefined && feeds[webhook.feedId]?.url === targetUrl)
+    );
+    if (matching.length === 0) return 0;
+
+    const deliveries = await mapWithConcurrency(matching, DELIVERY_CONCURRENCY, (webhook) => {
+        const feed = webhook.feedId ? feeds[webhook.feedId] : undefined;
+        return deliverWithRetry(webhook, targetUrl, {
+            feed: feed?.name ?? new URL(targetUrl).hostname,
+            url: targetUrl,
+            feedUrl: feed
+                ? `${origin}/api/feeds/${feed.id}/rss`
+                : `${origin}/api/rss?url=${encodeURIComponent(targetUrl)}`,
+            count: items.length,
+            items: items.slice(0, MAX_ITEMS_PER_PAYLOAD),
+        });
+    });
+
+    await appendWebhookDeliveries(deliveries);
+
+    const delivered = deliveries.filter((delivery) => delivery.ok).length;
+    console.log(`[Webhooks] ${targetUrl}: ${items.length} new article(s) sent to ${delivered}/${deliveries.length} webhooks`);
+    return delivered;
+}
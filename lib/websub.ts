@@ -0,0 +1,253 @@
+// lib/websub.ts
+// Minimal built-in WebSub hub (https://www.w3.org/TR/websub/).
+//
+// Generated feeds advertise /api/websub as their hub. Readers subscribe to a
+// topic (one of our feed URLs); we verify intent with a GET challenge to the
+// callback, store the subscription, and whenever `stabiliseDates` records new
+// articles for a page we fetch each subscribed topic for that page and POST
+// its current content to the callbacks. That push replaces polling, so readers
+// no longer spend our Jina / LLM budget to find out nothing changed.
+
+import { createHash, createHmac, randomBytes } from "crypto";
+import {
+    loadFeedDefinition,
+    loadWebSubSubscriptions,
+    loadWebSubSubscription,
+    saveWebSubSubscriptions,
+    deleteWebSubSubscriptions,
+    type WebSubSubscription,
+    type WebSubSubscriptions,
+} from "@/lib/storage";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { INTERNAL_REQUEST_HEADER, isValidFeedId } from "@/lib/feeds";
+import { assertPublicUrl, parseHttpUrl } from "@/lib/url";
+
+// --- Types ---
+
+export type WebSubMode = "subscribe" | "unsubscribe";
+
+export interface WebSubRequest {
+    mode: WebSubMode;
+    topic: string;
+    callback: string;
+    leaseSeconds: number;
+    secret?: string;
+}
+
+// --- Settings ---
+
+export const DEFAULT_LEASE_SECONDS = 10 * 24 * 60 * 60;
+const MIN_LEASE_SECONDS = 60 * 60;
+const MAX_LEASE_SECONDS = 30 * 24 * 60 * 60;
+const MAX_SECRET_BYTES = 200;
+
+const CALLBACK_TIMEOUT_MS = 10_000;
+const DELIVERY_CONCURRENCY = 4;
+
+// --- Helpers ---
+
+export function hubUrl(origin: string): string {
+    return `${origin}/api/websub`;
+}
+
+function subscriptionId(topic: string, callback: string): string {
+    return createHash("sha256").update(`${topic}\n${callback}`).digest("hex").slice(0, 16);
+}
+
+/**
+ * The webpage a topic is generated from, or null when the topic is not one of
+ * our feeds: /api/rss?url=<page>... or /api/feeds/<id>/rss on this origin.
+ */
+export async function resolveTopic(topic: string, origin: string): Promise<string | null> {
+    const url = parseHttpUrl(topic);
+    if (!url || url.origin !== origin) return null;
+
+    if (url.pathname === "/api/rss") {
+        return parseHttpUrl(url.searchParams.get("url"))?.toString() ?? null;
+    }
+
+    const savedFeed = url.pathname.match(/^\/api\/feeds\/([^/]+)\/rss$/);
+    if (savedFeed && isValidFeedId(savedFeed[1])) {
+        return (await loadFeedDefinition(savedFeed[1]))?.url ?? null;
+    }
+
+    return null;
+}
+
+/** Validate hub.* form fields; returns an error message or the parsed request */
+export function parseWebSubRequest(form: URLSearchParams): WebSubRequest | string {
+    const mode = form.get("hub.mode");
+    if (mode !== "subscribe" && mode !== "unsubscribe") {
+        return 'hub.mode must be "subscribe" or "unsubscribe"';
+    }
+
+    const topic = parseHttpUrl(form.get("hub.topic"));
+    if (!topic) return "hub.topic must be an http(s) URL";
+
+    const callback = parseHttpUrl(form.get("hub.callback"));
+    if (!callback) return "hub.callback must be an http(s) URL";
+
+    const secret = form.get("hub.secret") || undefined;
+    if (secret && Buffer.byteLength(secret) >= MAX_SECRET_BYTES) {
+        return `hub.secret must be less than ${MAX_SECRET_BYTES} bytes`;
+    }
+
+    const requestedLease = parseInt(form.get("hub.lease_seconds") || "", 10);
+    const leaseSeconds = isNaN(requestedLease)
+        ? DEFAULT_LEASE_SECONDS
+        : Math.min(Math.max(requestedLease, MIN_LEASE_SECONDS), MAX_LEASE_SECONDS);
+
+    return { mode, topic: topic.toString(), callback: callback.toString(), leaseSeconds, secret };
+}
+
+// --- Intent verification ---
+
+/**
+ * GET the callback with a random challenge; the subscriber confirms by echoing
+ * it back with a 2xx. On success the subscription is stored (or removed).
+ * Private callback hosts and redirects are refused (see assertPublicUrl). The
+ * reason for a failure is only logged, so the hub can't be used to probe hosts.
+ */
+export async function verifyIntent(request: WebSubRequest, targetUrl: string): Promise<boolean> {
+    const challenge = randomBytes(16).toString("hex");
+    const verifyUrl = new URL(request.callback);
+    verifyUrl.searchParams.set("hub.mode", request.mode);
+    verifyUrl.searchParams.set("hub.topic", request.topic);
+    verifyUrl.searchParams.set("hub.challenge", challenge);
+    if (request.mode === "subscribe") {
+        verifyUrl.searchParams.set("hub.lease_seconds", `${request.leaseSeconds}`);
+    }
+
+    try {
+        await assertPublicUrl(verifyUrl);
+        const res = await fetch(verifyUrl, { redirect: "manual", signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS) });
+        const body = (await res.text()).trim();
+        if (!res.ok || body !== challenge) {
+            console.warn(`[WebSub] ${request.mode} verification failed for ${request.callback}: HTTP ${res.status}${res.ok ? ", challenge mismatch" : ""}`);
+            return false;
+        }
+    } catch (e) {
+        console.warn(`[WebSub] ${request.mode} verification failed for ${request.callback}:`, e instanceof Error ? e.message : e);
+        return false;
+    }
+
+    const id = subscriptionId(request.topic, request.callback);
+
+    if (request.mode === "unsubscribe") {
+        await deleteWebSubSubscriptions([id]);
+    } else {
+        const now = new Date();
+        const existing = await loadWebSubSubscription(id);
+        await saveWebSubSubscriptions({
+            [id]: {
+                id,
+                topic: request.topic,
+                callback: request.callback,
+                targetUrl,
+                secret: request.secret,
+                leaseSeconds: request.leaseSeconds,
+                createdAtISO: existing?.createdAtISO ?? now.toISOString(),
+                expiresAtISO: new Date(now.getTime() + request.leaseSeconds * 1000).toISOString(),
+            },
+        });
+    }
+
+    console.log(`[WebSub] Verified ${request.mode} of ${request.callback} to ${request.topic}`);
+    return true;
+}
+
+// --- Content distribution ---
+
+async function deliver(
+    subscription: WebSubSubscription,
+    origin: string,
+    content: { body: string; contentType: string }
+): Promise<number> {
+    const headers: Record<string, string> = {
+        "Content-Type": content.contentType,
+        "Link": `<${hubUrl(origin)}>; rel="hub", <${subscription.topic}>; rel="self"`,
+    };
+    if (subscription.secret) {
+        const signature = createHmac("sha256", subscription.secret).update(content.body).digest("hex");
+        headers["X-Hub-Signature"] = `sha256=${signature}`;
+    }
+
+    try {
+        // Checked again on every delivery: the host may resolve elsewhere than at verification
+        await assertPublicUrl(new URL(subscription.callback));
+        const res = await fetch(subscription.callback, {
+            method: "POST",
+            headers,
+            body: content.body,
+            redirect: "manual",
+            signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+        });
+        await res.arrayBuffer();
+        return res.status;
+    } catch (e) {
+        console.warn(`[WebSub] Delivery to ${subscription.callback} failed:`, e instanceof Error ? e.message : e);
+        return 0;
+    }
+}
+
+/**
+ * Push the current content of every topic generated from `targetUrl` to its
+ * subscribers. Expired subscriptions are dropped; a 410 from the callback
+ * ends the subscription.
+ */
+export async function publishUpdate(origin: string, targetUrl: string): Promise<number> {
+    const subscriptions = Object.values(await loadWebSubSubscriptions());
+    const now = Date.now();
+
+    const expired = subscriptions.filter((sub) => new Date(sub.expiresAtISO).getTime() <= now);
+    await deleteWebSubSubscriptions(expired.map((sub) => sub.id));
+    const active = subscriptions.filter((sub) => !expired.includes(sub));
+    const matching = active.filter((sub) => sub.targetUrl === targetUrl);
+    if (matching.length === 0) {
+        return 0;
+    }
+
+    // Fetch each topic once; it is served from the caches this request just filled
+    const topics = Array.from(new Set(matching.map((sub) => sub.topic)));
+    const contents = new Map<string, { body: string; contentType: string }>();
+    await Promise.all(topics.map(async (topic) => {
+        try {
+            const res = await fetch(topic, {
+                headers: { [INTERNAL_REQUEST_HEADER]: "1" },
+                signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS * 6),
+            });
+            if (!res.ok) throw new Error(`HTTP ${res.status}`);
+            contents.set(topic, {
+                body: await res.text(),
+                contentType: res.headers.get("content-type") || "application/xml; charset=utf-8",
+            });
+        } catch (e) {
+            console.warn(`[WebSub] Could not fetch topic ${topic}:`, e instanceof Error ? e.message : e);
+        }
+    }));
+
+    const deliverable = matching.filter((sub) => contents.has(sub.topic));
+    const statuses = await mapWithConcurrency(deliverable, DELIVERY_CONCURRENCY, (sub) =>
+        deliver(sub, origin, contents.get(sub.topic)!)
+    );
+
+    // Re-read so a subscription renewed or removed during delivery isn't overwritten or restored
+    const deliveredAt = new Date().toISOString();
+    const current = await loadWebSubSubscriptions();
+    const gone: string[] = [];
+    const updated: WebSubSubscriptions = {};
+    deliverable.forEach((sub, index) => {
+        const status = statuses[index];
+        if (status === 410) {
+            gone.push(sub.id);
+        } else if (Object.hasOwn(current, sub.id)) {
+            updated[sub.id] = { ...current[sub.id], lastDeliveryISO: deliveredAt, lastDeliveryStatus: status };
+        }
+    });
+    await deleteWebSubSubscriptions(gone);
+    await saveWebSubSubscriptions(updated);
+
+    const delivered = statuses.filter((status) => status >= 200 && status < 300).length;
+    console.log(`[WebSub] Pushed ${targetUrl} to ${delivered}/${deliverable.length} subscribers`);
+    return delivered;
+}
@@ -1,5 +1,5 @@
 // lib/xml-builder.ts
-// Programmatic RSS 2.0 / Atom XML builder.
+// Programmatic RSS 2.0 / Atom XML builder (plus JSON Feed 1.1).
 //
 // Instead of letting the LLM generate raw XML (which is fragile and requires
 // post-hoc sanitization), we now have the LLM output structured JSON and
@@ -15,6 +15,10 @@ export interface RSSItem {
     pubDate: string;      // RFC 822 date string, or "NO_DATE_FOUND"
     categories?: string[];
     content?: string;     // full article content (when fulltext mode)
+    // Extra fields a site config asked the LLM for (see lib/extraction-config)
+    author?: string;
+    image?: string;       // absolute URL of the thumbnail / lead image
+    readingTime?: number; // minutes
 }
 
 export interface RSSChannel {
@@ -26,6 +30,24 @@ export interface RSSChannel {
 export interface RSSFeedData {
     channel: RSSChannel;
     items: RSSItem[];
+    lastBuildDate?: string;  // RFC 822; when the feed content last changed (defaults to build time)
+    selfUrl?: string;        // canonical URL of this feed (WebSub topic)
+    hubUrl?: string;         // WebSub hub advertised to readers
+}
+
+export type FeedFormat = "rss" | "atom" | "json";
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+    rss: "application/xml; charset=utf-8",
+    atom: "application/atom+xml; charset=utf-8",
+    json: "application/feed+json; charset=utf-8",
+};
+
+export function parseFeedFormat(value: string | null): FeedFormat {
+    if (value === "atom" || value === "json") {
+        return value;
+    }
+    return "rss";
 }
 
 // --- XML Escaping ---
@@ -46,6 +68,36 @@ function wrapCDATA(str: string): string {
     return `<![CDATA[${str.replace(/\]\]>/g, "]]]]><![CDATA[>")}]]>`;
 }
 
+// --- Extra item fields ---
+// author, image, and readingTime only appear when a site config asks for them,
+// so their namespaces are declared only when some item has a value.
+
+const EXTENSION_NAMESPACES = {
+    dc: "http://purl.org/dc/elements/1.1/",
+    media: "http://search.yahoo.com/mrss/",
+    rssgenai: "urn:rss-genai",
+};
+
+/** ` xmlns:...` declarations for the extension elements these items use */
+function extensionNamespaces(items: RSSItem[], authorInDc: boolean): string {
+    const used: Array<keyof typeof EXTENSION_NAMESPACES> = [];
+    if (authorInDc && items.some((item) => item.author)) used.push("dc");
+    if (items.some((item) => item.image)) used.push("media");
+    if (items.some((item) => item.readingTime)) used.push("rssgenai");
+    return used.map((prefix) => ` xmlns:${prefix}="${EXTENSION_NAMESPACES[prefix]}"`).join("");
+}
+
+function extensionElements(item: RSSItem): string[] {
+    const lines: string[] = [];
+    if (item.image) {
+        lines.push(`    <media:content url="${escapeXml(item.image)}" medium="image"/>`);
+    }
+    if (item.readingTime) {
+        lines.push(`    <rssgenai:readingTime>${item.readingTime}</rssgenai:readingTime>`);
+    }
+    return lines;
+}
+
 // --- Builders ---
 
 /** Build a complete RSS 2.0 XML document from structured data */
@@ -53,12 +105,18 @@ export function buildRSS(feed: RSSFeedData): string {
     const lines: string[] = [];
 
     lines.push(`<?xml version="1.0" encoding="UTF-8"?>`);
-    lines.push(`<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/">`);
+    lines.push(`<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:atom="http://www.w3.org/2005/Atom"${extensionNamespaces(feed.items, true)}>`);
     lines.push(`<channel>`);
     lines.push(`  <title>${escapeXml(feed.channel.title)}</title>`);
     lines.push(`  <link>${escapeXml(feed.channel.link)}</link>`);
+    if (feed.selfUrl) {
+        lines.push(`  <atom:link href="${escapeXml(feed.selfUrl)}" rel="self" type="application/rss+xml"/>`);
+    }
+    if (feed.hubUrl) {
+        lines.push(`  <atom:link href="${escapeXml(feed.hubUrl)}" rel="hub"/>`);
+    }
     lines.push(`  <description>${escapeXml(feed.channel.description)}</description>`);
-    lines.push(`  <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>`);
+    lines.push(`  <lastBuildDate>${escapeXml(feed.lastBuildDate ?? new Date().toUTCString())}</lastBuildDate>`);
     lines.push(`  <generator>RSS-GenAI</generator>`);
 
     for (const item of feed.items) {
@@ -88,6 +146,12 @@ export function buildRSS(feed: RSSFeedData): string {
             }
         }
 
+        // RSS <author> must be an email address; dc:creator takes a name
+        if (item.author) {
+            lines.push(`    <dc:creator>${escapeXml(item.author)}</dc:creator>`);
+        }
+        lines.push(...extensionElements(item));
+
         lines.push(`  </item>`);
     }
 
@@ -102,12 +166,18 @@ export function buildAtom(feed: RSSFeedData): string {
     const lines: string[] = [];
 
     lines.push(`<?xml version="1.0" encoding="UTF-8"?>`);
-    lines.push(`<feed xmlns="http://www.w3.org/2005/Atom">`);
+    lines.push(`<feed xmlns="http://www.w3.org/2005/Atom"${extensionNamespaces(feed.items, false)}>`);
     lines.push(`  <title>${escapeXml(feed.channel.title)}</title>`);
     lines.push(`  <link href="${escapeXml(feed.channel.link)}" rel="alternate"/>`);
+    if (feed.selfUrl) {
+        lines.push(`  <link href="${escapeXml(feed.selfUrl)}" rel="self" type="application/atom+xml"/>`);
+    }
+    if (feed.hubUrl) {
+        lines.push(`  <link href="${escapeXml(feed.hubUrl)}" rel="hub"/>`);
+    }
     lines.push(`  <id>${escapeXml(feed.channel.link)}</id>`);
     lines.push(`  <subtitle>${escapeXml(feed.channel.description)}</subtitle>`);
-    lines.push(`  <updated>${new Date().toISOString()}</updated>`);
+    lines.push(`  <updated>${toISODate(feed.lastBuildDate ?? "") ?? new Date().toISOString()}</updated>`);
     lines.push(`  <generator>RSS-GenAI</generator>`);
 
     for (const item of feed.items) {
@@ -125,15 +195,11 @@ export function buildAtom(feed: RSSFeedData): string {
             lines.push(`    <content type="text">${escapeXml(item.description)}</content>`);
         }
 
-        if (item.pubDate && item.pubDate !== "NO_DATE_FOUND") {
-            // Atom uses ISO 8601, try to convert from RFC 822
-            try {
-                const isoDate = new Date(item.pubDate).toISOString();
-                lines.push(`    <published>${isoDate}</published>`);
-                lines.push(`    <updated>${isoDate}</updated>`);
-            } catch {
-                lines.push(`    <published>${escapeXml(item.pubDate)}</published>`);
-            }
+        // Atom uses ISO 8601; an unreadable date is left out rather than emitted invalid
+        const isoDate = toISODate(item.pubDate);
+        if (isoDate) {
+            lines.push(`    <published>${isoDate}</published>`);
+            lines.push(`    <updated>${isoDate}</updated>`);
         }
 
         if (item.categories?.length) {
@@ -142,6 +208,11 @@ export function buildAtom(feed: RSSFeedData): string {
             }
         }
 
+        if (item.author) {
+            lines.push(`    <author><name>${escapeXml(item.author)}</name></author>`);
+        }
+        lines.push(...extensionElements(item));
+
         lines.push(`  </entry>`);
     }
 
@@ -149,3 +220,47 @@ export function buildAtom(feed: RSSFeedData): string {
 
     return lines.join("\n");
 }
+
+/** RFC 822 (or any parseable) date → ISO 8601, or undefined when unparseable */
+function toISODate(pubDate: string): string | undefined {
+    if (!pubDate || pubDate === "NO_DATE_FOUND") return undefined;
+    const time = new Date(pubDate).getTime();
+    return isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/** Build a JSON Feed 1.1 document (https://jsonfeed.org/version/1.1) from the same structured data */
+export function buildJsonFeed(feed: RSSFeedData): string {
+    const doc = {
+        version: "https://jsonfeed.org/version/1.1",
+        title: feed.channel.title,
+        home_page_url: feed.channel.link || undefined,
+        feed_url: feed.selfUrl,
+        description: feed.channel.description || undefined,
+        hubs: feed.hubUrl ? [{ type: "WebSub", url: feed.hubUrl }] : undefined,
+        items: feed.items.map((item) => ({
+            id: item.guid || item.link,
+            url: item.link,
+            title: item.title,
+            // JSON Feed requires content_html or content_text; fall back to the summary as plain text
+            ...(item.content
+                ? { content_html: item.content }
+                : { content_text: item.description }),
+            summary: item.description,
+            date_published: toISODate(item.pubDate),
+            tags: item.categories?.length ? item.categories : undefined,
+            image: item.image,
+            authors: item.author ? [{ name: item.author }] : undefined,
+            // JSON Feed extensions are objects with a leading underscore
+            _rss_genai: item.readingTime ? { reading_time_minutes: item.readingTime } : undefined,
+        })),
+    };
+
+    return JSON.stringify(doc, null, 2);
+}
+
+/** Serialize feed data in the requested output format */
+export function buildFeed(feed: RSSFeedData, format: FeedFormat): string {
+    if (format === "atom") return buildAtom(feed);
+    if (format === "json") return buildJsonFeed(feed);
+    return buildRSS(feed);
+}